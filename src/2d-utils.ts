@@ -1,10 +1,15 @@
 import { Point2D } from "./Point2D";
 import { Polygon2D } from "./Polygon2D";
 import { Object2D } from "./Object2D";
-import { Canvas } from "./Canvas";
+import { RenderTarget } from "./RenderTarget";
+import {
+  ValidationOptions,
+  validateObject2DData,
+  formatValidationIssues,
+} from "./mesh-validation";
 
 // Interface for JSON 2D object data
-interface Object2DData {
+export interface Object2DData {
   points: { x: number; y: number }[];
   vertices: number[][]; // Array of [point_index1, point_index2] pairs
   polygons: {
@@ -14,7 +19,18 @@ interface Object2DData {
 }
 
 // Function to create a 2D object from JSON data (compile-time loading)
-export function create2DObjectFromJSONData(jsonData: Object2DData): Object2D {
+// The data is validated first (see mesh-validation.ts)
+export function create2DObjectFromJSONData(
+  data: Object2DData,
+  options: ValidationOptions = {}
+): Object2D {
+  const { issues, data: jsonData } = validateObject2DData(data, options);
+  if (!jsonData) {
+    throw new Error(
+      `Invalid 2D object data:\n${formatValidationIssues(issues)}`
+    );
+  }
+
   // Convert plain objects to Point2D instances
   const points = jsonData.points.map((point) => new Point2D(point.x, point.y));
 
@@ -37,7 +53,7 @@ export function create2DObjectFromJSONData(jsonData: Object2DData): Object2D {
 }
 
 // Function to draw a 2D object by rendering all polygons
-export function draw2DObject(canvas: Canvas, object2D: Object2D): void {
+export function draw2DObject(target: RenderTarget, object2D: Object2D): void {
   const allPoints = object2D.getPoints();
   const allVertices = object2D.getVertices();
 
@@ -52,7 +68,7 @@ export function draw2DObject(canvas: Canvas, object2D: Object2D): void {
       const startPoint = allPoints[vertex[0]];
       const endPoint = allPoints[vertex[1]];
 
-      canvas.drawLine(
+      target.drawLine(
         startPoint.x,
         startPoint.y,
         endPoint.x,
@@ -66,7 +82,7 @@ export function draw2DObject(canvas: Canvas, object2D: Object2D): void {
 // Legacy function to draw a single 2D polygon (kept for backward compatibility if needed)
 // This is now primarily used internally by the projection system
 export function draw2DPolygon(
-  canvas: Canvas,
+  target: RenderTarget,
   polygon: Polygon2D,
   points: Point2D[],
   vertices: [number, number][]
@@ -80,7 +96,7 @@ export function draw2DPolygon(
     const startPoint = points[vertex[0]];
     const endPoint = points[vertex[1]];
 
-    canvas.drawLine(
+    target.drawLine(
       startPoint.x,
       startPoint.y,
       endPoint.x,
@@ -1,14 +1,36 @@
 import { Point3D } from "./Point3D";
 import { Polygon3D } from "./Polygon3D";
 import { Mesh3D } from "./Mesh3D";
+import { Vec3 } from "./Vec3";
+import { weldVertices } from "./mesh-utils";
 
 /**
  * Procedural 3D Object Generators
  *
  * Functions to generate meshes at runtime.
  * All generators return Mesh3D objects ready for instancing.
+ *
+ * Primitives are centered on the origin with +Y up, and every polygon is
+ * wound counter-clockwise seen from outside, so back-face culling and
+ * shading work without further fix-up.
  */
 
+// Polygon coloring for generated primitives:
+//   string:   one color for every polygon
+//   string[]: colors cycled over the polygon's part (see each generator)
+//   function: color from the polygon's details
+export type ColorScheme = string | string[] | ((face: FaceInfo) => string);
+
+// Details of a generated polygon, passed to ColorScheme functions
+export interface FaceInfo {
+  index: number; // Polygon index in the mesh
+  part: number; // Generator-specific part (box side, sphere ring, ...)
+  center: Point3D; // Average of the polygon's vertices
+  normal: Vec3; // Outward unit normal
+}
+
+const DEFAULT_PRIMITIVE_COLOR = "#808080";
+
 // Function to create a grid mesh procedurally (for floors, terrains, etc.)
 export function createGridMesh(
   gridSize: number, // Number of squares along each axis (e.g., 16 = 16x16 grid)
@@ -35,6 +57,7 @@ export function createGridMesh(
   };
 
   // Generate two triangles per grid square (polygons with vertex indices)
+  // Wound counter-clockwise seen from above, so the grid faces +Y
   for (let z = 0; z < gridSize; z++) {
     for (let x = 0; x < gridSize; x++) {
       const topLeft = getVertexIndex(x, z);
@@ -42,13 +65,543 @@ export function createGridMesh(
       const bottomLeft = getVertexIndex(x, z + 1);
       const bottomRight = getVertexIndex(x + 1, z + 1);
 
-      // Triangle 1: topLeft -> topRight -> bottomLeft
-      polygons.push(new Polygon3D(color, [topLeft, topRight, bottomLeft]));
+      // Triangle 1: topLeft -> bottomLeft -> topRight
+      polygons.push(new Polygon3D(color, [topLeft, bottomLeft, topRight]));
 
-      // Triangle 2: topRight -> bottomRight -> bottomLeft
-      polygons.push(new Polygon3D(color, [topRight, bottomRight, bottomLeft]));
+      // Triangle 2: topRight -> bottomLeft -> bottomRight
+      polygons.push(new Polygon3D(color, [topRight, bottomLeft, bottomRight]));
     }
   }
 
   return new Mesh3D(vertices, polygons);
 }
+
+// Box with the given size, each side split into segments × segments quads
+// Parts: 0 = +X, 1 = -X, 2 = +Y, 3 = -Y, 4 = +Z, 5 = -Z
+export function createBoxMesh(
+  width: number = 1,
+  height: number = 1,
+  depth: number = 1,
+  segments: number = 1,
+  colors: ColorScheme = DEFAULT_PRIMITIVE_COLOR
+): Mesh3D {
+  requireCount("segments", segments, 1);
+
+  const half = new Vec3(width / 2, height / 2, depth / 2);
+  const vertices: Point3D[] = [];
+  const faces: GeneratedFace[] = [];
+
+  // Each side: outward normal and two in-plane axes with u × v = normal
+  const sides: [Vec3, Vec3, Vec3][] = [
+    [new Vec3(1, 0, 0), new Vec3(0, 1, 0), new Vec3(0, 0, 1)],
+    [new Vec3(-1, 0, 0), new Vec3(0, 0, 1), new Vec3(0, 1, 0)],
+    [new Vec3(0, 1, 0), new Vec3(0, 0, 1), new Vec3(1, 0, 0)],
+    [new Vec3(0, -1, 0), new Vec3(1, 0, 0), new Vec3(0, 0, 1)],
+    [new Vec3(0, 0, 1), new Vec3(1, 0, 0), new Vec3(0, 1, 0)],
+    [new Vec3(0, 0, -1), new Vec3(0, 1, 0), new Vec3(1, 0, 0)],
+  ];
+
+  sides.forEach(([normal, u, v], part) => {
+    const first = vertices.length;
+    for (let j = 0; j <= segments; j++) {
+      for (let i = 0; i <= segments; i++) {
+        const point = normal
+          .add(u.scale((2 * i) / segments - 1))
+          .add(v.scale((2 * j) / segments - 1));
+        vertices.push(
+          new Point3D(point.x * half.x, point.y * half.y, point.z * half.z)
+        );
+      }
+    }
+    const index = (i: number, j: number) => first + j * (segments + 1) + i;
+    for (let j = 0; j < segments; j++) {
+      for (let i = 0; i < segments; i++) {
+        faces.push({
+          part,
+          indices: [
+            index(i, j),
+            index(i + 1, j),
+            index(i + 1, j + 1),
+            index(i, j + 1),
+          ],
+        });
+      }
+    }
+  });
+
+  // Sides share their border vertices so edges aren't duplicated
+  return weldVertices(buildMesh(vertices, faces, colors));
+}
+
+// UV sphere: segments around the Y axis, rings from pole to pole
+// Parts: ring index (0 = top)
+export function createUVSphereMesh(
+  radius: number = 1,
+  segments: number = 16,
+  rings: number = 8,
+  colors: ColorScheme = DEFAULT_PRIMITIVE_COLOR
+): Mesh3D {
+  requireCount("rings", rings, 2);
+
+  const profile: LatheRing[] = [];
+  for (let ring = 0; ring <= rings; ring++) {
+    const theta = (Math.PI * ring) / rings;
+    profile.push({
+      radius: ring === 0 || ring === rings ? 0 : radius * Math.sin(theta),
+      y: radius * Math.cos(theta),
+      part: ring,
+    });
+  }
+
+  return createLatheMesh(profile, segments, colors);
+}
+
+// Icosphere: icosahedron whose triangles are split subdivisions times
+// (each step ×4) and pushed onto the sphere. More uniform than a UV sphere
+// Parts: index of the icosahedron face (0-19) the triangle comes from
+export function createIcosphereMesh(
+  radius: number = 1,
+  subdivisions: number = 1,
+  colors: ColorScheme = DEFAULT_PRIMITIVE_COLOR
+): Mesh3D {
+  requireCount("subdivisions", subdivisions, 0);
+
+  const t = (1 + Math.sqrt(5)) / 2;
+  const directions: Vec3[] = [
+    [-1, t, 0],
+    [1, t, 0],
+    [-1, -t, 0],
+    [1, -t, 0],
+    [0, -1, t],
+    [0, 1, t],
+    [0, -1, -t],
+    [0, 1, -t],
+    [t, 0, -1],
+    [t, 0, 1],
+    [-t, 0, -1],
+    [-t, 0, 1],
+  ].map(([x, y, z]) => new Vec3(x, y, z).normalize());
+
+  let faces: GeneratedFace[] = [
+    [0, 11, 5],
+    [0, 5, 1],
+    [0, 1, 7],
+    [0, 7, 10],
+    [0, 10, 11],
+    [1, 5, 9],
+    [5, 11, 4],
+    [11, 10, 2],
+    [10, 7, 6],
+    [7, 1, 8],
+    [3, 9, 4],
+    [3, 4, 2],
+    [3, 2, 6],
+    [3, 6, 8],
+    [3, 8, 9],
+    [4, 9, 5],
+    [2, 4, 11],
+    [6, 2, 10],
+    [8, 6, 7],
+    [9, 8, 1],
+  ].map((indices, part) => ({ indices, part }));
+
+  for (let step = 0; step < subdivisions; step++) {
+    // Edge midpoints are shared by the two triangles of the edge
+    const midpoints = new Map<string, number>();
+    const midpoint = (a: number, b: number): number => {
+      const key = a < b ? `${a},${b}` : `${b},${a}`;
+      let index = midpoints.get(key);
+      if (index === undefined) {
+        index = directions.length;
+        directions.push(directions[a].add(directions[b]).normalize());
+        midpoints.set(key, index);
+      }
+      return index;
+    };
+
+    faces = faces.flatMap(({ indices: [a, b, c], part }) => {
+      const ab = midpoint(a, b);
+      const bc = midpoint(b, c);
+      const ca = midpoint(c, a);
+      return [
+        { part, indices: [a, ab, ca] },
+        { part, indices: [ab, b, bc] },
+        { part, indices: [ca, bc, c] },
+        { part, indices: [ab, bc, ca] },
+      ];
+    });
+  }
+
+  const vertices = directions.map((d) => d.scale(radius).toPoint3D());
+  return buildMesh(vertices, faces, colors);
+}
+
+// Cylinder along the Y axis with triangle-fan caps
+// Parts: 0 = side, 1 = top cap, 2 = bottom cap
+export function createCylinderMesh(
+  radius: number = 1,
+  height: number = 2,
+  segments: number = 16,
+  heightSegments: number = 1,
+  colors: ColorScheme = DEFAULT_PRIMITIVE_COLOR
+): Mesh3D {
+  requireCount("heightSegments", heightSegments, 1);
+
+  const top = height / 2;
+  const profile: LatheRing[] = [{ radius: 0, y: top, part: 1 }];
+  for (let i = 0; i <= heightSegments; i++) {
+    profile.push({
+      radius,
+      y: top - (height * i) / heightSegments,
+      part: i < heightSegments ? 0 : 2,
+    });
+  }
+  profile.push({ radius: 0, y: -top, part: 2 });
+
+  return createLatheMesh(profile, segments, colors);
+}
+
+// Cone along the Y axis, apex at the top, with a triangle-fan base
+// Parts: 0 = side, 1 = base
+export function createConeMesh(
+  radius: number = 1,
+  height: number = 2,
+  segments: number = 16,
+  heightSegments: number = 1,
+  colors: ColorScheme = DEFAULT_PRIMITIVE_COLOR
+): Mesh3D {
+  requireCount("heightSegments", heightSegments, 1);
+
+  const top = height / 2;
+  const profile: LatheRing[] = [];
+  for (let i = 0; i <= heightSegments; i++) {
+    profile.push({
+      radius: (radius * i) / heightSegments,
+      y: top - (height * i) / heightSegments,
+      part: i < heightSegments ? 0 : 1,
+    });
+  }
+  profile.push({ radius: 0, y: -top, part: 1 });
+
+  return createLatheMesh(profile, segments, colors);
+}
+
+// Torus around the Y axis
+// radialSegments go around the Y axis, tubularSegments around the tube
+// Parts: index of the ring around the tube (stripes along the tube)
+export function createTorusMesh(
+  majorRadius: number = 1,
+  minorRadius: number = 0.25,
+  radialSegments: number = 24,
+  tubularSegments: number = 12,
+  colors: ColorScheme = DEFAULT_PRIMITIVE_COLOR
+): Mesh3D {
+  requireCount("radialSegments", radialSegments, 3);
+  requireCount("tubularSegments", tubularSegments, 3);
+
+  const vertices: Point3D[] = [];
+  for (let i = 0; i < radialSegments; i++) {
+    const u = (2 * Math.PI * i) / radialSegments;
+    for (let j = 0; j < tubularSegments; j++) {
+      const v = (2 * Math.PI * j) / tubularSegments;
+      const distance = majorRadius + minorRadius * Math.cos(v);
+      vertices.push(
+        new Point3D(
+          distance * Math.cos(u),
+          minorRadius * Math.sin(v),
+          distance * Math.sin(u)
+        )
+      );
+    }
+  }
+
+  const index = (i: number, j: number) =>
+    (i % radialSegments) * tubularSegments + (j % tubularSegments);
+  const faces: GeneratedFace[] = [];
+  for (let i = 0; i < radialSegments; i++) {
+    for (let j = 0; j < tubularSegments; j++) {
+      faces.push({
+        part: i,
+        indices: [
+          index(i, j),
+          index(i, j + 1),
+          index(i + 1, j + 1),
+          index(i + 1, j),
+        ],
+      });
+    }
+  }
+
+  return buildMesh(vertices, faces, colors);
+}
+
+// Capsule along the Y axis: a cylinder with hemispherical ends
+// height is the total height including the caps (at least 2 × radius)
+// Parts: 0 = top hemisphere, 1 = side, 2 = bottom hemisphere
+export function createCapsuleMesh(
+  radius: number = 0.5,
+  height: number = 2,
+  segments: number = 16,
+  capRings: number = 4,
+  colors: ColorScheme = DEFAULT_PRIMITIVE_COLOR
+): Mesh3D {
+  requireCount("capRings", capRings, 1);
+  if (height < 2 * radius) {
+    throw new Error(
+      `Capsule height ${height} is less than its diameter ${2 * radius}`
+    );
+  }
+
+  const halfCylinder = height / 2 - radius;
+  const profile: LatheRing[] = [];
+  for (let ring = 0; ring <= capRings; ring++) {
+    const theta = (Math.PI / 2) * (ring / capRings);
+    profile.push({
+      radius: radius * Math.sin(theta),
+      y: halfCylinder + radius * Math.cos(theta),
+      part: ring < capRings ? 0 : halfCylinder > 0 ? 1 : 2,
+    });
+  }
+  // Without a cylinder part the equator ring is shared by both hemispheres
+  for (let ring = halfCylinder > 0 ? 0 : 1; ring <= capRings; ring++) {
+    const theta = (Math.PI / 2) * (1 + ring / capRings);
+    profile.push({
+      radius: ring === capRings ? 0 : radius * Math.sin(theta),
+      y: -halfCylinder + radius * Math.cos(theta),
+      part: 2,
+    });
+  }
+
+  return createLatheMesh(profile, segments, colors);
+}
+
+// Flat rectangle in the XZ plane facing +Y, made of quads
+// Unlike createGridMesh, the size is given directly and cells aren't split
+// Parts: 0/1 alternating like a checkerboard
+export function createPlaneMesh(
+  width: number = 1,
+  depth: number = 1,
+  widthSegments: number = 1,
+  depthSegments: number = 1,
+  colors: ColorScheme = DEFAULT_PRIMITIVE_COLOR
+): Mesh3D {
+  requireCount("widthSegments", widthSegments, 1);
+  requireCount("depthSegments", depthSegments, 1);
+
+  const vertices: Point3D[] = [];
+  for (let j = 0; j <= depthSegments; j++) {
+    for (let i = 0; i <= widthSegments; i++) {
+      vertices.push(
+        new Point3D(
+          (i / widthSegments - 0.5) * width,
+          0,
+          (j / depthSegments - 0.5) * depth
+        )
+      );
+    }
+  }
+
+  const index = (i: number, j: number) => j * (widthSegments + 1) + i;
+  const faces: GeneratedFace[] = [];
+  for (let j = 0; j < depthSegments; j++) {
+    for (let i = 0; i < widthSegments; i++) {
+      // Same orientation as createGridMesh: counter-clockwise from above
+      faces.push({
+        part: (i + j) % 2,
+        indices: [
+          index(i, j),
+          index(i, j + 1),
+          index(i + 1, j + 1),
+          index(i + 1, j),
+        ],
+      });
+    }
+  }
+
+  return buildMesh(vertices, faces, colors);
+}
+
+// Flat disc in the XZ plane facing +Y: a triangle fan around the center,
+// then rings of quads
+// Parts: ring index (0 = center)
+export function createDiscMesh(
+  radius: number = 1,
+  segments: number = 16,
+  rings: number = 1,
+  colors: ColorScheme = DEFAULT_PRIMITIVE_COLOR
+): Mesh3D {
+  requireCount("rings", rings, 1);
+
+  const profile: LatheRing[] = [];
+  for (let ring = 0; ring <= rings; ring++) {
+    profile.push({ radius: (radius * ring) / rings, y: 0, part: ring });
+  }
+
+  return createLatheMesh(profile, segments, colors);
+}
+
+export interface ParametricSurfaceOptions {
+  uRange?: [number, number]; // Parameter range of u (default [0, 1])
+  vRange?: [number, number]; // Parameter range of v (default [0, 1])
+  closedU?: boolean; // Surface wraps around in u (last column joins the first)
+  closedV?: boolean; // Surface wraps around in v
+  colors?: ColorScheme; // Parts: row index along v
+}
+
+// Mesh of a parametric surface f(u, v) → (x, y, z), e.g. a function plot
+// f(u, v) = (u, sin(u) · cos(v), v), sampled on a uSegments × vSegments grid
+// of quads. Faces point along ∂f/∂v × ∂f/∂u (up for height plots
+// (u, h, v), like createGridMesh; outward for a torus with u around the
+// Y axis and v around the tube); swap u and v to flip them.
+// Closed directions share their seam vertices instead of duplicating them
+export function createParametricSurfaceMesh(
+  f: (u: number, v: number) => { x: number; y: number; z: number },
+  uSegments: number = 16,
+  vSegments: number = 16,
+  options: ParametricSurfaceOptions = {}
+): Mesh3D {
+  requireCount("uSegments", uSegments, 1);
+  requireCount("vSegments", vSegments, 1);
+  const [u0, u1] = options.uRange ?? [0, 1];
+  const [v0, v1] = options.vRange ?? [0, 1];
+  const closedU = options.closedU ?? false;
+  const closedV = options.closedV ?? false;
+
+  const columns = closedU ? uSegments : uSegments + 1;
+  const rows = closedV ? vSegments : vSegments + 1;
+  const vertices: Point3D[] = [];
+  for (let j = 0; j < rows; j++) {
+    const v = v0 + ((v1 - v0) * j) / vSegments;
+    for (let i = 0; i < columns; i++) {
+      const u = u0 + ((u1 - u0) * i) / uSegments;
+      const { x, y, z } = f(u, v);
+      if (![x, y, z].every(Number.isFinite)) {
+        throw new Error(`Surface is not finite at u=${u}, v=${v}`);
+      }
+      vertices.push(new Point3D(x, y, z));
+    }
+  }
+
+  const index = (i: number, j: number) => (j % rows) * columns + (i % columns);
+  const faces: GeneratedFace[] = [];
+  for (let j = 0; j < vSegments; j++) {
+    for (let i = 0; i < uSegments; i++) {
+      faces.push({
+        part: j,
+        indices: [
+          index(i, j),
+          index(i, j + 1),
+          index(i + 1, j + 1),
+          index(i + 1, j),
+        ],
+      });
+    }
+  }
+
+  return buildMesh(vertices, faces, options.colors ?? DEFAULT_PRIMITIVE_COLOR);
+}
+
+// Polygon of a primitive before its color is resolved
+interface GeneratedFace {
+  indices: number[];
+  part: number;
+}
+
+// Point of a lathe profile; part applies to the band towards the next ring
+interface LatheRing {
+  radius: number; // Distance from the Y axis (0 = single vertex on the axis)
+  y: number;
+  part: number;
+}
+
+// Surface of revolution around the Y axis
+// Faces point to the right of the profile direction when looking down the
+// axis from above: outward for a profile running top to bottom (sphere,
+// cylinder side) and upward for one running from the axis outward (disc)
+function createLatheMesh(
+  profile: LatheRing[],
+  segments: number,
+  colors: ColorScheme
+): Mesh3D {
+  requireCount("segments", segments, 3);
+
+  const vertices: Point3D[] = [];
+  const ringStarts = profile.map(({ radius, y }) => {
+    const start = vertices.length;
+    if (radius === 0) {
+      vertices.push(new Point3D(0, y, 0));
+      return start;
+    }
+    for (let s = 0; s < segments; s++) {
+      const phi = (2 * Math.PI * s) / segments;
+      vertices.push(
+        new Point3D(radius * Math.cos(phi), y, radius * Math.sin(phi))
+      );
+    }
+    return start;
+  });
+
+  // Vertex s of ring i (rings of radius 0 have a single vertex)
+  const index = (i: number, s: number) =>
+    profile[i].radius === 0 ? ringStarts[i] : ringStarts[i] + (s % segments);
+
+  const faces: GeneratedFace[] = [];
+  for (let i = 0; i < profile.length - 1; i++) {
+    const part = profile[i].part;
+    if (profile[i].radius === 0 && profile[i + 1].radius === 0) {
+      continue;
+    }
+    for (let s = 0; s < segments; s++) {
+      const corners = [
+        index(i, s),
+        index(i, s + 1),
+        index(i + 1, s + 1),
+        index(i + 1, s),
+      ];
+      // Fans around a pole: drop the repeated pole vertex
+      faces.push({
+        part,
+        indices: corners.filter((c, k) => c !== corners[(k + 1) % 4]),
+      });
+    }
+  }
+
+  return buildMesh(vertices, faces, colors);
+}
+
+// Assemble the mesh, resolving each face's color from the scheme
+function buildMesh(
+  vertices: Point3D[],
+  faces: GeneratedFace[],
+  colors: ColorScheme
+): Mesh3D {
+  if (Array.isArray(colors) && colors.length === 0) {
+    throw new Error("Color scheme needs at least one color");
+  }
+
+  const polygons = faces.map(({ indices, part }, index) => {
+    if (typeof colors === "string") {
+      return new Polygon3D(colors, indices);
+    }
+    if (Array.isArray(colors)) {
+      return new Polygon3D(colors[part % colors.length], indices);
+    }
+
+    const polygon = new Polygon3D("", indices);
+    const center = indices
+      .reduce((sum, i) => sum.add(Vec3.from(vertices[i])), Vec3.zero())
+      .scale(1 / indices.length)
+      .toPoint3D();
+    const normal = polygon.computeNormal(vertices).normalize();
+    polygon.color = colors({ index, part, center, normal });
+    return polygon;
+  });
+
+  return new Mesh3D(vertices, polygons);
+}
+
+function requireCount(name: string, value: number, minimum: number): void {
+  if (!Number.isInteger(value) || value < minimum) {
+    throw new Error(`${name} must be an integer >= ${minimum}, got ${value}`);
+  }
+}
@@ -3,20 +3,39 @@ import { Point2D } from "./Point2D";
 import { Polygon3D } from "./Polygon3D";
 import { Mesh3D } from "./Mesh3D";
 import { SceneObject } from "./SceneObject";
-import { Canvas } from "./Canvas";
+import { CurveObject } from "./CurveObject";
+import { LODObject } from "./LODObject";
+import { RenderTarget } from "./RenderTarget";
 import { World } from "./World";
 import { Camera } from "./Camera";
 import { VisibilityState } from "./VisibilityState";
+import { Transform } from "./Transform";
+import { Mat4 } from "./Mat4";
+import { MeshEdge } from "./MeshEdge";
+import { Vec3 } from "./Vec3";
+import { OcclusionBuffer } from "./OcclusionBuffer";
 import {
-  HALF_SCREEN_WIDTH,
-  HALF_SCREEN_HEIGHT,
-  FOCAL_LENGTH,
-  FOV,
-  ASPECT_RATIO,
-} from "./constants";
+  RenderOptions,
+  RenderMode,
+  EdgeMode,
+  HiddenLineMode,
+  resolveRenderOptions,
+} from "./RenderOptions";
+import { shadeColor } from "./color-utils";
+import {
+  clipLineToDepthRange,
+  clipLineToRect,
+  clipPolygonToDepthRange,
+  clipPolygonToRect,
+} from "./clipping-utils";
+import {
+  ValidationOptions,
+  validateMesh3DData,
+  formatValidationIssues,
+} from "./mesh-validation";
 
 // Interface for JSON 3D object data
-interface Mesh3DData {
+export interface Mesh3DData {
   vertices: { x: number; y: number; z: number }[];
   polygons: {
     color: string;
@@ -25,7 +44,18 @@ interface Mesh3DData {
 }
 
 // Function to create a 3D mesh from JSON data (compile-time loading)
-export function createMesh3DFromJSONData(jsonData: Mesh3DData): Mesh3D {
+// The data is validated first (see mesh-validation.ts); with repair enabled,
+// broken polygons and unused vertices are dropped instead of throwing.
+// Accepts any value (e.g. parsed JSON of unknown shape) since it's checked
+export function createMesh3DFromJSONData(
+  data: unknown,
+  options: ValidationOptions = {}
+): Mesh3D {
+  const { issues, data: jsonData } = validateMesh3DData(data, options);
+  if (!jsonData) {
+    throw new Error(`Invalid mesh data:\n${formatValidationIssues(issues)}`);
+  }
+
   const vertices = jsonData.vertices.map(
     (v) => new Point3D(v.x, v.y, v.z)
   );
@@ -37,235 +67,232 @@ export function createMesh3DFromJSONData(jsonData: Mesh3DData): Mesh3D {
   return new Mesh3D(vertices, polygons);
 }
 
-// Simple orthographic projection from 3D to 2D (ignores depth)
-// Useful for 2D-like views, UI elements, or debugging
-const orthographicProjectionScale = 200;
-export function project3DPointOrthographic(point3D: Point3D): Point2D {
-  // Orthographic projection: just drop Z coordinate
-  // Apply screen space transform (scale, center, flip Y)
-  const screenX = HALF_SCREEN_WIDTH + point3D.x * orthographicProjectionScale;
-  const screenY = HALF_SCREEN_HEIGHT - point3D.y * orthographicProjectionScale; // Flip Y axis
-
-  return new Point2D(screenX, screenY);
-}
-
 // Perspective projection from camera space to normalized device coordinates (NDC)
 // Returns coordinates in [-1, 1] range where:
 //   x: -1 (left) to +1 (right)
 //   y: -1 (bottom) to +1 (top)  ← Y axis points UP in projection space!
 //   z: depth value (for future depth sorting/clipping)
-export function projectToNDC(cameraPoint: Point3D): Point3D {
+// Points inside the camera's frustum land exactly in [-1, 1] on X and Y
+// Callers should clip against the near plane first (see clipLineToDepthRange);
+// the clamp below is only a safety net against division by zero
+export function projectToNDCPerspective(
+  cameraPoint: Point3D,
+  camera: Camera
+): Point3D {
   // Prevent division by zero or negative z (behind camera)
-  const safeZ = Math.max(cameraPoint.z, 0.1);
+  const safeZ = Math.max(cameraPoint.z, camera.near);
 
-  // Perspective division using pre-calculated focal length
-  const perspectiveFactor = FOCAL_LENGTH / safeZ;
-  const ndcX = cameraPoint.x * perspectiveFactor;
+  // Perspective division using the camera's focal length
+  // X is additionally divided by the aspect ratio so [-1, 1] spans the full width
+  const perspectiveFactor = camera.getFocalLength() / safeZ;
+  const ndcX = (cameraPoint.x * perspectiveFactor) / camera.aspect;
   const ndcY = cameraPoint.y * perspectiveFactor;
 
   // Return NDC coordinates (keeping z for potential depth sorting)
   return new Point3D(ndcX, ndcY, safeZ);
 }
 
+// Orthographic projection from camera space to NDC (no perspective division)
+// The visible box spans ±orthoSize vertically and ±orthoSize × aspect horizontally
+// Useful for technical drawings: parallel edges stay parallel at any depth
+export function projectToNDCOrthographic(
+  cameraPoint: Point3D,
+  camera: Camera
+): Point3D {
+  const { halfWidth, halfHeight } = camera.getOrthoHalfExtents();
+
+  // Keep camera-space z as depth, same as the perspective path
+  return new Point3D(
+    cameraPoint.x / halfWidth,
+    cameraPoint.y / halfHeight,
+    cameraPoint.z
+  );
+}
+
+// Project from camera space to NDC using the camera's projection mode
+export function projectToNDC(cameraPoint: Point3D, camera: Camera): Point3D {
+  return camera.isOrthographic()
+    ? projectToNDCOrthographic(cameraPoint, camera)
+    : projectToNDCPerspective(cameraPoint, camera);
+}
+
 // Transform from projection space (NDC) to screen space
 // Handles:
-//   1. Scaling from [-1, 1] to screen dimensions
+//   1. Scaling from [-1, 1] to the camera's viewport dimensions
 //   2. Flipping Y axis (NDC Y goes up, screen Y goes down)
 //   3. Centering on screen
-
-// Scale factor to map from NDC-like coordinates to pixels
-// Adjust this based on desired visible range
-const ndcToScreenSpaceScale = 200;
-export function ndcToScreenSpace(ndcPoint: Point3D): Point2D {
-  // NDC is typically in range [-1, 1], but our FOV and perspective
-  // might give us values outside this range. We'll scale appropriately.
+export function ndcToScreenSpace(ndcPoint: Point3D, camera: Camera): Point2D {
+  const halfWidth = camera.viewportWidth / 2;
+  const halfHeight = camera.viewportHeight / 2;
 
   // Transform to screen coordinates:
-  // 1. Scale NDC coordinates
+  // 1. Scale NDC coordinates (NDC ±1 = viewport edges)
   // 2. Flip Y axis: NDC Y goes up (+1 = top), screen Y goes down (0 = top)
   // 3. Translate to center of screen
-  const screenX = HALF_SCREEN_WIDTH + ndcPoint.x * ndcToScreenSpaceScale;
-  const screenY = HALF_SCREEN_HEIGHT - ndcPoint.y * ndcToScreenSpaceScale; // Flip Y: subtract instead of add
+  const screenX = halfWidth + ndcPoint.x * halfWidth;
+  const screenY = halfHeight - ndcPoint.y * halfHeight; // Flip Y: subtract instead of add
 
   return new Point2D(screenX, screenY);
 }
 
 // Combined projection pipeline: camera space → NDC → screen space
 // This is a convenience function that combines both steps
-export function project3DPoint(cameraPoint: Point3D): Point2D {
-  const ndcPoint = projectToNDC(cameraPoint);
-  return ndcToScreenSpace(ndcPoint);
+export function project3DPoint(cameraPoint: Point3D, camera: Camera): Point2D {
+  const ndcPoint = projectToNDC(cameraPoint, camera);
+  return ndcToScreenSpace(ndcPoint, camera);
+}
+
+// Orthographic camera space → screen space, regardless of the camera's mode
+// Useful for 2D-like views, UI elements, or debugging
+export function project3DPointOrthographic(
+  cameraPoint: Point3D,
+  camera: Camera
+): Point2D {
+  const ndcPoint = projectToNDCOrthographic(cameraPoint, camera);
+  return ndcToScreenSpace(ndcPoint, camera);
 }
 
 // Function to rotate a mesh around the Y-axis (modifies the mesh directly)
+// Note: this changes the geometry for every SceneObject sharing the mesh;
+// to rotate one instance, change its rotation instead
 export function rotateMesh3DY(mesh: Mesh3D, angleInDegrees: number): void {
-  // Convert degrees to radians
-  const angleInRadians = (angleInDegrees * Math.PI) / 180;
-  const cosAngle = Math.cos(angleInRadians);
-  const sinAngle = Math.sin(angleInRadians);
+  const rotation = Mat4.rotationY(angleInDegrees);
 
   // Rotate all vertices in the mesh
-  const rotatedVertices = mesh.getVertices().map((vertex) => {
-    // Y-axis rotation matrix:
-    // x' = x * cos(θ) + z * sin(θ)
-    // y' = y (unchanged)
-    // z' = -x * sin(θ) + z * cos(θ)
-    const newX = vertex.x * cosAngle + vertex.z * sinAngle;
-    const newY = vertex.y; // Y remains unchanged for Y-axis rotation
-    const newZ = -vertex.x * sinAngle + vertex.z * cosAngle;
-
-    return new Point3D(newX, newY, newZ);
-  });
+  mesh.setVertices(
+    mesh.getVertices().map((vertex) => rotation.transformPoint(vertex))
+  );
+}
 
-  mesh.setVertices(rotatedVertices);
+// Apply a single local transform to a point (scale, rotate, translate)
+export function applyLocalTransformToPoint(
+  point: Point3D,
+  transform: Transform
+): Point3D {
+  return transform.toMatrix().transformPoint(point);
 }
 
-// Apply a transform to a point (scale, rotate, translate)
-// This uses the SceneObject's transform properties directly
+// Apply a scene object's full transform chain to a point (model → world space)
+// For many points, get sceneObject.getWorldMatrix() once and reuse it instead
 export function applyTransformToPoint(
   point: Point3D,
   sceneObject: SceneObject
 ): Point3D {
-  // Step 1: Apply scale
-  let x = point.x * sceneObject.scale.x;
-  let y = point.y * sceneObject.scale.y;
-  let z = point.z * sceneObject.scale.z;
-
-  // Step 2: Apply rotation (X -> Y -> Z order, Euler angles)
-  // Rotation around X-axis
-  if (sceneObject.rotation.x !== 0) {
-    const angleX = (sceneObject.rotation.x * Math.PI) / 180;
-    const cosX = Math.cos(angleX);
-    const sinX = Math.sin(angleX);
-    const tempY = y * cosX - z * sinX;
-    const tempZ = y * sinX + z * cosX;
-    y = tempY;
-    z = tempZ;
-  }
-
-  // Rotation around Y-axis
-  if (sceneObject.rotation.y !== 0) {
-    const angleY = (sceneObject.rotation.y * Math.PI) / 180;
-    const cosY = Math.cos(angleY);
-    const sinY = Math.sin(angleY);
-    const tempX = x * cosY + z * sinY;
-    const tempZ = -x * sinY + z * cosY;
-    x = tempX;
-    z = tempZ;
-  }
+  return sceneObject.getWorldMatrix().transformPoint(point);
+}
 
-  // Rotation around Z-axis
-  if (sceneObject.rotation.z !== 0) {
-    const angleZ = (sceneObject.rotation.z * Math.PI) / 180;
-    const cosZ = Math.cos(angleZ);
-    const sinZ = Math.sin(angleZ);
-    const tempX = x * cosZ - y * sinZ;
-    const tempY = x * sinZ + y * cosZ;
-    x = tempX;
-    y = tempY;
+// Get the chain of local transforms that place an object in world space
+// Ordered from the object itself up to its root; applying them in order
+// (see applyLocalTransformToPoint) maps model space to world space
+export function getWorldTransforms(sceneObject: SceneObject): Transform[] {
+  const transforms: Transform[] = [];
+  for (
+    let node: SceneObject | null = sceneObject;
+    node !== null;
+    node = node.getParent()
+  ) {
+    transforms.push(node.getLocalTransform());
   }
+  return transforms;
+}
 
-  // Step 3: Apply translation
-  x += sceneObject.position.x;
-  y += sceneObject.position.y;
-  z += sceneObject.position.z;
-
-  return new Point3D(x, y, z);
+// World-space position of an object's origin (accounts for all parents)
+export function getWorldPosition(sceneObject: SceneObject): Point3D {
+  return sceneObject.getWorldMatrix().getTranslation().toPoint3D();
 }
 
 // Transform a point from world space to camera space
-// Uses inverse transform: translate by -cameraPos, then rotate by -cameraRot
-// Rotation order: Y->X->Z (inverse of Z->X->Y) to avoid gimbal lock
+// Uses the camera's view matrix: translate by -cameraPos, then apply the
+// inverse of the camera orientation
+// For many points, get camera.getViewMatrix() once and reuse it instead
 export function worldToCameraSpace(
   worldPoint: Point3D,
   camera: Camera
 ): Point3D {
-  // Step 1: Translate to camera-relative coordinates
-  let x = worldPoint.x - camera.position.x;
-  let y = worldPoint.y - camera.position.y;
-  let z = worldPoint.z - camera.position.z;
-
-  // Step 2: Apply inverse rotation (opposite order: Y -> X -> Z becomes Z -> X -> Y inverse)
-  // This is the standard view transformation
-
-  // Inverse rotation around Y-axis (yaw)
-  if (camera.rotation.y !== 0) {
-    const angleY = (-camera.rotation.y * Math.PI) / 180; // Negative for inverse
-    const cosY = Math.cos(angleY);
-    const sinY = Math.sin(angleY);
-    const tempX = x * cosY + z * sinY;
-    const tempZ = -x * sinY + z * cosY;
-    x = tempX;
-    z = tempZ;
-  }
-
-  // Inverse rotation around X-axis (pitch)
-  if (camera.rotation.x !== 0) {
-    const angleX = (-camera.rotation.x * Math.PI) / 180; // Negative for inverse
-    const cosX = Math.cos(angleX);
-    const sinX = Math.sin(angleX);
-    const tempY = y * cosX - z * sinX;
-    const tempZ = y * sinX + z * cosX;
-    y = tempY;
-    z = tempZ;
-  }
+  return camera.getViewMatrix().transformPoint(worldPoint);
+}
 
-  // Inverse rotation around Z-axis (roll)
-  if (camera.rotation.z !== 0) {
-    const angleZ = (-camera.rotation.z * Math.PI) / 180; // Negative for inverse
-    const cosZ = Math.cos(angleZ);
-    const sinZ = Math.sin(angleZ);
-    const tempX = x * cosZ - y * sinZ;
-    const tempY = x * sinZ + y * cosZ;
-    x = tempX;
-    y = tempY;
-  }
+// Model → camera space matrix for a scene object (view · world)
+export function getModelViewMatrix(
+  sceneObject: SceneObject,
+  camera: Camera
+): Mat4 {
+  return Mat4.multiply(camera.getViewMatrix(), sceneObject.getWorldMatrix());
+}
 
-  return new Point3D(x, y, z);
+// Model → clip space matrix for a scene object (projection · view · world)
+export function getModelViewProjectionMatrix(
+  sceneObject: SceneObject,
+  camera: Camera
+): Mat4 {
+  return Mat4.multiply(
+    camera.getProjectionMatrix(),
+    getModelViewMatrix(sceneObject, camera)
+  );
 }
 
 // Frustum culling using bounding sphere test in camera space
 // Tests if a sphere is inside the view frustum
 // Returns true if visible, false if culled
-
-const nearPlane = 0.1; // Minimum Z distance
-const farPlane = 1000; // Maximum Z distance
-const halfFovRad = (FOV * Math.PI) / 360; // FOV/2 in radians
+// Uses the same focal length and aspect ratio as projectToNDC, so an object
+// is only culled when none of it can land inside the viewport
 export function isObjectInFrustum(
   cameraSpaceCenter: Point3D,
-  boundingRadius: number
+  boundingRadius: number,
+  camera: Camera
 ): boolean {
-  if (cameraSpaceCenter.z + boundingRadius < nearPlane) {
+  if (cameraSpaceCenter.z + boundingRadius < camera.near) {
     return false; // Behind or touching near plane
   }
 
   // Far plane test (optional - you might not want one)
-  if (cameraSpaceCenter.z - boundingRadius > farPlane) {
+  if (cameraSpaceCenter.z - boundingRadius > camera.far) {
     return false; // Too far away
   }
 
-  // Calculate frustum dimensions at the sphere's depth
-  // Using half-angle: tan(FOV/2) = halfHeight / z
-  const halfHeight = Math.tan(halfFovRad) * cameraSpaceCenter.z;
-  const halfWidth = halfHeight * ASPECT_RATIO;
+  if (camera.isOrthographic()) {
+    return isSphereInOrthographicBox(cameraSpaceCenter, boundingRadius, camera);
+  }
+
+  // Side plane slopes: the frustum spans |y| <= tanY * z and |x| <= tanX * z
+  // tanY = tan(FOV/2) / zoom = 1 / focalLength
+  const tanY = 1 / camera.getFocalLength();
+  const tanX = tanY * camera.aspect;
+
+  // Signed distance from the sphere center to each side plane (positive = outside)
+  // A plane |x| = tan * z has normal (1, -tan) / sqrt(1 + tan²) in the XZ plane
+  const lengthX = Math.sqrt(1 + tanX * tanX);
+  const lengthY = Math.sqrt(1 + tanY * tanY);
 
   // Right plane test
-  if (cameraSpaceCenter.x - boundingRadius > halfWidth) {
+  if (
+    (cameraSpaceCenter.x - tanX * cameraSpaceCenter.z) / lengthX >
+    boundingRadius
+  ) {
     return false;
   }
 
   // Left plane test
-  if (cameraSpaceCenter.x + boundingRadius < -halfWidth) {
+  if (
+    (-cameraSpaceCenter.x - tanX * cameraSpaceCenter.z) / lengthX >
+    boundingRadius
+  ) {
     return false;
   }
 
   // Top plane test
-  if (cameraSpaceCenter.y - boundingRadius > halfHeight) {
+  if (
+    (cameraSpaceCenter.y - tanY * cameraSpaceCenter.z) / lengthY >
+    boundingRadius
+  ) {
     return false;
   }
 
   // Bottom plane test
-  if (cameraSpaceCenter.y + boundingRadius < -halfHeight) {
+  if (
+    (-cameraSpaceCenter.y - tanY * cameraSpaceCenter.z) / lengthY >
+    boundingRadius
+  ) {
     return false;
   }
 
@@ -273,25 +300,47 @@ export function isObjectInFrustum(
   return true;
 }
 
+// Orthographic view volume is a box: the side planes don't depend on depth
+// Near/far planes are tested by the caller (isObjectInFrustum)
+function isSphereInOrthographicBox(
+  cameraSpaceCenter: Point3D,
+  boundingRadius: number,
+  camera: Camera
+): boolean {
+  const { halfWidth, halfHeight } = camera.getOrthoHalfExtents();
+
+  // Left/right planes
+  if (Math.abs(cameraSpaceCenter.x) - boundingRadius > halfWidth) {
+    return false;
+  }
+
+  // Top/bottom planes
+  if (Math.abs(cameraSpaceCenter.y) - boundingRadius > halfHeight) {
+    return false;
+  }
+
+  return true;
+}
+
 // Perform frustum culling on a scene object
 // Updates the object's visibility state
+// Pass the camera's view matrix when culling many objects to build it once
 export function cullSceneObject(
   sceneObject: SceneObject,
-  camera: Camera
+  camera: Camera,
+  viewMatrix: Mat4 = camera.getViewMatrix()
 ): void {
-  // Transform object center to camera space
-  const worldCenter = new Point3D(
-    sceneObject.position.x,
-    sceneObject.position.y,
-    sceneObject.position.z
-  );
-  const cameraSpaceCenter = worldToCameraSpace(worldCenter, camera);
+  // Transform object center (through its parent chain) to camera space
+  const cameraSpaceCenter = Mat4.multiply(
+    viewMatrix,
+    sceneObject.getWorldMatrix()
+  ).transformPoint(new Point3D(0, 0, 0));
 
-  // Get world-space bounding radius (accounts for scale)
+  // Get world-space bounding radius (accounts for scale of all parents)
   const boundingRadius = sceneObject.getWorldBoundingRadius();
 
   // Test frustum visibility
-  const visible = isObjectInFrustum(cameraSpaceCenter, boundingRadius);
+  const visible = isObjectInFrustum(cameraSpaceCenter, boundingRadius, camera);
 
   // Update visibility state
   sceneObject.setVisibilityState(
@@ -299,51 +348,611 @@ export function cullSceneObject(
   );
 }
 
-// Function to draw a scene object by projecting vertices and rendering polygon edges
-export function drawSceneObject(
-  canvas: Canvas,
+// Clip a projected segment to the screen rectangle and hand it to the target
+function drawScreenLine(
+  target: RenderTarget,
+  camera: Camera,
+  start: Point2D,
+  end: Point2D,
+  color: string,
+  dash: number[] = []
+): void {
+  const onScreen = clipLineToRect(
+    start,
+    end,
+    0,
+    0,
+    camera.viewportWidth,
+    camera.viewportHeight
+  );
+  if (!onScreen) {
+    return; // Projected segment misses the viewport
+  }
+
+  target.drawLine(
+    onScreen[0].x,
+    onScreen[0].y,
+    onScreen[1].x,
+    onScreen[1].y,
+    color,
+    undefined,
+    dash
+  );
+}
+
+// Draw a camera-space line segment: clip to near/far planes, project,
+// then clip to the screen rectangle before handing it to the target
+// Endpoints that survive depth clipping unchanged reuse their cached projection
+function drawCameraSpaceLine(
+  target: RenderTarget,
+  camera: Camera,
+  start: Point3D,
+  end: Point3D,
+  projectedStart: Point2D | null,
+  projectedEnd: Point2D | null,
+  color: string
+): void {
+  const clipped = clipLineToDepthRange(start, end, camera.near, camera.far);
+  if (!clipped) {
+    return; // Entirely behind the near plane or beyond the far plane
+  }
+
+  const screenStart =
+    clipped[0] === start && projectedStart
+      ? projectedStart
+      : project3DPoint(clipped[0], camera);
+  const screenEnd =
+    clipped[1] === end && projectedEnd
+      ? projectedEnd
+      : project3DPoint(clipped[1], camera);
+
+  drawScreenLine(target, camera, screenStart, screenEnd, color);
+}
+
+// Screen distance (pixels) between occlusion samples along an edge
+const HIDDEN_LINE_SAMPLE_SPACING = 4;
+const MAX_HIDDEN_LINE_SAMPLES = 1024;
+
+// Draw a camera-space line segment with hidden-line removal
+// The depth-clipped segment is sampled along its length; consecutive samples
+// with the same visibility are merged into runs, and hidden runs are dropped
+// or dashed. ignore() excludes the faces the edge itself belongs to
+function drawOccludedCameraSpaceLine(
+  target: RenderTarget,
+  camera: Camera,
+  start: Point3D,
+  end: Point3D,
+  color: string,
+  occlusion: OcclusionBuffer,
+  ignore: (polygonId: number) => boolean,
+  renderOptions: RenderOptions
+): void {
+  const clipped = clipLineToDepthRange(start, end, camera.near, camera.far);
+  if (!clipped) {
+    return;
+  }
+  const [clippedStart, clippedEnd] = clipped;
+
+  // Camera-space point at parameter t along the clipped segment
+  const pointAt = (t: number) =>
+    new Point3D(
+      clippedStart.x + (clippedEnd.x - clippedStart.x) * t,
+      clippedStart.y + (clippedEnd.y - clippedStart.y) * t,
+      clippedStart.z + (clippedEnd.z - clippedStart.z) * t
+    );
+
+  // One sample per few pixels of projected length (capped for edges that
+  // reach far off-screen near the camera)
+  const screenStart = project3DPoint(clippedStart, camera);
+  const screenEnd = project3DPoint(clippedEnd, camera);
+  const screenLength = Math.hypot(
+    screenEnd.x - screenStart.x,
+    screenEnd.y - screenStart.y
+  );
+  const sampleCount = Math.min(
+    MAX_HIDDEN_LINE_SAMPLES,
+    Math.max(1, Math.ceil(screenLength / HIDDEN_LINE_SAMPLE_SPACING))
+  );
+
+  // Visibility of the sample in the middle of step i
+  const isHidden = (i: number) => {
+    const sample = pointAt((i + 0.5) / sampleCount);
+    const screen = project3DPoint(sample, camera);
+    return occlusion.isOccluded(screen.x, screen.y, sample.z, ignore);
+  };
+
+  const drawRun = (from: number, to: number, hidden: boolean) => {
+    if (hidden && renderOptions.hiddenLineMode !== HiddenLineMode.DASHED) {
+      return;
+    }
+    drawScreenLine(
+      target,
+      camera,
+      project3DPoint(pointAt(from / sampleCount), camera),
+      project3DPoint(pointAt(to / sampleCount), camera),
+      color,
+      hidden ? renderOptions.hiddenLineDash : []
+    );
+  };
+
+  let runStart = 0;
+  let runHidden = isHidden(0);
+  for (let i = 1; i < sampleCount; i++) {
+    const hidden = isHidden(i);
+    if (hidden !== runHidden) {
+      drawRun(runStart, i, runHidden);
+      runStart = i;
+      runHidden = hidden;
+    }
+  }
+  drawRun(runStart, sampleCount, runHidden);
+}
+
+// Determine which polygons face the camera, from camera-space geometry
+// A polygon is front-facing when its normal (right-hand rule over the winding)
+// points towards the eye: towards the origin in perspective, towards -Z in
+// orthographic views. Pass mirrored = true when the model-view matrix flips
+// handedness (negative scale), which reverses every winding
+export function computeFrontFacing(
+  polygons: Polygon3D[],
+  cameraPoints: Point3D[],
+  camera: Camera,
+  mirrored: boolean = false
+): boolean[] {
+  return polygons.map(
+    (polygon) =>
+      isFacingCamera(
+        polygon.computeNormal(cameraPoints),
+        polygon.computeCentroid(cameraPoints),
+        camera
+      ) !== mirrored
+  );
+}
+
+// True when a camera-space normal at a surface point points towards the eye
+function isFacingCamera(normal: Vec3, point: Vec3, camera: Camera): boolean {
+  return camera.isOrthographic() ? normal.z < 0 : normal.dot(point) < 0;
+}
+
+// Feature edges: mesh borders, creases sharper than the crease angle, and
+// silhouettes (edges between a front-facing and a back-facing polygon)
+function isFeatureEdge(
+  edge: MeshEdge,
+  frontFacing: boolean[],
+  options: RenderOptions
+): boolean {
+  if (edge.isBoundary() || edge.isCrease(options.creaseAngle)) {
+    return true;
+  }
+
+  if (options.silhouetteEdges) {
+    const firstFacing = frontFacing[edge.polygonIndices[0]];
+    return edge.polygonIndices.some(
+      (index) => frontFacing[index] !== firstFacing
+    );
+  }
+
+  return false;
+}
+
+// Camera-space data for one object, shared by the occlusion and drawing passes
+interface PreparedSceneObject {
+  mesh: Mesh3D;
+  cameraPoints: Point3D[];
+  projectedPoints: (Point2D | null)[]; // null outside the depth range
+  frontFacing: boolean[]; // Empty when no render option needs polygon facing
+  mirrored: boolean; // Model-view flips handedness (reversed winding)
+  polygonIdOffset: number; // Occlusion buffer id of the object's first polygon
+  groupName: string; // Object id, passed to RenderTarget.beginGroup around its output
+}
+
+// Transform an object's vertices to camera space and project them
+function prepareSceneObject(
   sceneObject: SceneObject,
+  camera: Camera,
+  renderOptions: RenderOptions,
+  polygonIdOffset: number = 0
+): PreparedSceneObject {
+  // The model-view matrix is computed once per object and shared by all vertices;
+  // projection happens per edge, after clipping
+  const modelView = getModelViewMatrix(sceneObject, camera);
+
+  // Curves are re-tessellated and LOD meshes selected for the current view
+  if (sceneObject instanceof LODObject) {
+    sceneObject.selectLevel(camera);
+  } else if (sceneObject instanceof CurveObject) {
+    sceneObject.tessellate((point) =>
+      project3DPoint(modelView.transformPoint(point), camera)
+    );
+  }
+
+  // Transform all vertices: object transform -> camera space
+  const mesh = sceneObject.getMesh();
+  const cameraPoints = mesh
+    .getVertices()
+    .map((vertex) => modelView.transformPoint(vertex));
+
+  // Pre-project vertices inside the depth range (shared by adjacent edges)
+  const projectedPoints = cameraPoints.map((cameraPoint) =>
+    cameraPoint.z >= camera.near && cameraPoint.z <= camera.far
+      ? project3DPoint(cameraPoint, camera)
+      : null
+  );
+
+  // Facing is needed for back-face culling and for silhouettes in feature mode
+  const needsFacing =
+    renderOptions.backFaceCulling ||
+    (renderOptions.edgeMode === EdgeMode.FEATURE &&
+      renderOptions.silhouetteEdges);
+  const mirrored = modelView.determinant() < 0;
+  const frontFacing = needsFacing
+    ? computeFrontFacing(mesh.getPolygons(), cameraPoints, camera, mirrored)
+    : [];
+
+  return {
+    mesh,
+    cameraPoints,
+    projectedPoints,
+    frontFacing,
+    mirrored,
+    polygonIdOffset,
+    groupName: sceneObject.getId(),
+  };
+}
+
+// Occlusion buffer matching the camera's viewport and projection
+function createOcclusionBuffer(camera: Camera): OcclusionBuffer {
+  return new OcclusionBuffer(
+    camera.viewportWidth,
+    camera.viewportHeight,
+    !camera.isOrthographic()
+  );
+}
+
+// Add every polygon of a prepared object to the occlusion buffer
+// Both sides of a polygon occlude: open meshes (planes, grids) have no back to hide behind
+function addOccluders(
+  occlusion: OcclusionBuffer,
+  prepared: PreparedSceneObject,
   camera: Camera
 ): void {
-  const mesh = sceneObject.getMesh();
+  prepared.mesh.getPolygons().forEach((polygon, index) => {
+    const cameraPolygon = clipPolygonToDepthRange(
+      polygon.vertexIndices.map((i) => prepared.cameraPoints[i]),
+      camera.near,
+      camera.far
+    );
+    if (cameraPolygon.length < 3) {
+      return;
+    }
 
-  const vertices3D = mesh.getVertices();
+    occlusion.addPolygon(
+      cameraPolygon.map((point) => project3DPoint(point, camera)),
+      cameraPolygon.map((point) => point.z),
+      prepared.polygonIdOffset + index
+    );
+  });
+}
+
+// Draw the edges and polylines of a prepared object
+// occlusion is null when hidden-line removal is off; drawEdges is false in
+// SOLID mode, where only polylines are drawn over the fills
+function drawPreparedSceneObject(
+  target: RenderTarget,
+  prepared: PreparedSceneObject,
+  camera: Camera,
+  renderOptions: RenderOptions,
+  occlusion: OcclusionBuffer | null,
+  drawEdges: boolean = true
+): void {
+  const { mesh, cameraPoints, projectedPoints, frontFacing } = prepared;
   const polygons = mesh.getPolygons();
 
-  // Project all vertices: object transform -> camera -> screen
-  const projectedPoints = vertices3D.map((vertex) => {
-    const worldPoint = applyTransformToPoint(vertex, sceneObject);
-    const cameraPoint = worldToCameraSpace(worldPoint, camera);
-    return project3DPoint(cameraPoint);
+  // ignore() lists the polygons a segment may not be hidden by
+  const drawSegment = (
+    a: number,
+    b: number,
+    color: string,
+    ignore: (polygonId: number) => boolean
+  ) => {
+    if (occlusion) {
+      drawOccludedCameraSpaceLine(
+        target,
+        camera,
+        cameraPoints[a],
+        cameraPoints[b],
+        color,
+        occlusion,
+        ignore,
+        renderOptions
+      );
+    } else {
+      drawCameraSpaceLine(
+        target,
+        camera,
+        cameraPoints[a],
+        cameraPoints[b],
+        projectedPoints[a],
+        projectedPoints[b],
+        color
+      );
+    }
+  };
+
+  // Open polylines have no faces: never culled, always drawn
+  for (const polyline of mesh.getPolylines()) {
+    const color = renderOptions.wireColor ?? polyline.color;
+    const indices = polyline.vertexIndices;
+    for (let i = 0; i < indices.length - 1; i++) {
+      drawSegment(indices[i], indices[i + 1], color, () => false);
+    }
+  }
+
+  if (!drawEdges) {
+    return;
+  }
+
+  // Draw each unique edge once (shared polygon sides are merged by the mesh)
+  // Color comes from the adjacent polygons (see MeshEdge.getColor) unless overridden
+  for (const edge of mesh.getEdges()) {
+    if (
+      renderOptions.backFaceCulling &&
+      !edge.polygonIndices.some((index) => frontFacing[index])
+    ) {
+      continue; // Every adjacent polygon faces away from the camera
+    }
+
+    if (
+      renderOptions.edgeMode === EdgeMode.FEATURE &&
+      !isFeatureEdge(edge, frontFacing, renderOptions)
+    ) {
+      continue; // Internal or smooth edge hidden in feature mode
+    }
+
+    const color = renderOptions.wireColor ?? edge.getColor(polygons);
+    drawSegment(edge.a, edge.b, color, (polygonId) =>
+      edge.polygonIndices.includes(polygonId - prepared.polygonIdOffset)
+    );
+  }
+}
+
+// A clipped, projected polygon waiting to be filled (painter's algorithm)
+interface FilledPolygon {
+  screenPoints: Point2D[];
+  depth: number; // Mean NDC z of the clipped polygon (camera-space depth)
+  color: string; // Flat-shaded fill color
+  groupName: string; // Group of the object the polygon belongs to
+}
+
+// Brightness of a face from its camera-space normal (Lambert + ambient)
+// Faces are lit from the side facing the camera, so open meshes seen from
+// behind aren't black
+function computeFlatShading(
+  normal: Vec3,
+  centroid: Vec3,
+  towardsLight: Vec3,
+  camera: Camera,
+  ambientLight: number
+): number {
+  const unitNormal = normal.normalize();
+  const visibleSide = isFacingCamera(unitNormal, centroid, camera)
+    ? unitNormal
+    : unitNormal.negate();
+  const diffuse = Math.max(0, visibleSide.dot(towardsLight));
+  return ambientLight + (1 - ambientLight) * diffuse;
+}
+
+// Clip, project and shade the polygons of a prepared object for filling
+function collectFilledPolygons(
+  prepared: PreparedSceneObject,
+  camera: Camera,
+  renderOptions: RenderOptions,
+  towardsLight: Vec3,
+  filledPolygons: FilledPolygon[]
+): void {
+  const { mesh, cameraPoints, frontFacing, mirrored } = prepared;
+
+  mesh.getPolygons().forEach((polygon, index) => {
+    if (renderOptions.backFaceCulling && !frontFacing[index]) {
+      return;
+    }
+
+    const cameraPolygon = clipPolygonToDepthRange(
+      polygon.vertexIndices.map((i) => cameraPoints[i]),
+      camera.near,
+      camera.far
+    );
+    if (cameraPolygon.length < 3) {
+      return; // Entirely outside the depth range
+    }
+
+    const ndcPoints = cameraPolygon.map((point) => projectToNDC(point, camera));
+    const depth =
+      ndcPoints.reduce((sum, point) => sum + point.z, 0) / ndcPoints.length;
+
+    // Trim to the viewport so off-screen geometry never reaches the target
+    const screenPoints = clipPolygonToRect(
+      ndcPoints.map((point) => ndcToScreenSpace(point, camera)),
+      0,
+      0,
+      camera.viewportWidth,
+      camera.viewportHeight
+    );
+    if (screenPoints.length < 3) {
+      return;
+    }
+
+    // Mirrored objects have reversed winding: flip the normal back
+    const normal = polygon.computeNormal(cameraPoints);
+    const intensity = computeFlatShading(
+      mirrored ? normal.negate() : normal,
+      polygon.computeCentroid(cameraPoints),
+      towardsLight,
+      camera,
+      renderOptions.ambientLight
+    );
+
+    filledPolygons.push({
+      screenPoints,
+      depth,
+      color: shadeColor(polygon.color, intensity),
+      groupName: prepared.groupName,
+    });
   });
+}
+
+// Render prepared objects according to the render mode:
+//   1. Fill pass (SOLID, SOLID_WIRE): every polygon of every object, sorted
+//      back-to-front so nearer faces paint over farther ones
+//   2. Wire pass (WIREFRAME, SOLID_WIRE): edges on top, with optional
+//      hidden-line removal. Polylines are drawn in every mode
+function renderPreparedObjects(
+  target: RenderTarget,
+  preparedObjects: PreparedSceneObject[],
+  camera: Camera,
+  renderOptions: RenderOptions
+): void {
+  if (renderOptions.renderMode !== RenderMode.WIREFRAME) {
+    // Light direction in camera space, pointing from the surface to the light
+    const towardsLight = camera
+      .getViewMatrix()
+      .transformDirection(renderOptions.lightDirection)
+      .normalize()
+      .negate();
+
+    const filledPolygons: FilledPolygon[] = [];
+    for (const prepared of preparedObjects) {
+      collectFilledPolygons(
+        prepared,
+        camera,
+        renderOptions,
+        towardsLight,
+        filledPolygons
+      );
+    }
 
-  // Draw each polygon's edges (consecutive vertex index pairs, closing the loop)
-  for (const polygon of polygons) {
-    const indices = polygon.getVertexIndices();
-    const n = indices.length;
+    // Depth order interleaves objects: consecutive polygons of the same
+    // object share a group, so an object may get several groups
+    filledPolygons.sort((a, b) => b.depth - a.depth);
+    let currentGroup: string | null = null;
+    for (const filledPolygon of filledPolygons) {
+      if (filledPolygon.groupName !== currentGroup) {
+        if (currentGroup !== null) {
+          target.endGroup?.();
+        }
+        currentGroup = filledPolygon.groupName;
+        target.beginGroup?.(currentGroup);
+      }
+      target.fillPolygon(filledPolygon.screenPoints, filledPolygon.color);
+    }
+    if (currentGroup !== null) {
+      target.endGroup?.();
+    }
+  }
 
-    for (let i = 0; i < n; i++) {
-      const a = indices[i];
-      const b = indices[(i + 1) % n];
-      const start = projectedPoints[a];
-      const end = projectedPoints[b];
+  const drawEdges = renderOptions.renderMode !== RenderMode.SOLID;
+  if (
+    !drawEdges &&
+    preparedObjects.every(
+      (prepared) => prepared.mesh.getPolylines().length === 0
+    )
+  ) {
+    return;
+  }
 
-      canvas.drawLine(start.x, start.y, end.x, end.y, polygon.color);
+  // Over filled polygons, edges behind faces must not show through:
+  // SHOW is treated as HIDE (DASHED still reveals them)
+  const hiddenLineMode =
+    renderOptions.renderMode !== RenderMode.WIREFRAME &&
+    renderOptions.hiddenLineMode === HiddenLineMode.SHOW
+      ? HiddenLineMode.HIDE
+      : renderOptions.hiddenLineMode;
+  const wireOptions: RenderOptions = { ...renderOptions, hiddenLineMode };
+
+  // Occlusion pass: every visible face can hide edges of any object
+  let occlusion: OcclusionBuffer | null = null;
+  if (hiddenLineMode !== HiddenLineMode.SHOW) {
+    occlusion = createOcclusionBuffer(camera);
+    for (const prepared of preparedObjects) {
+      addOccluders(occlusion, prepared, camera);
     }
   }
+
+  for (const prepared of preparedObjects) {
+    target.beginGroup?.(prepared.groupName);
+    drawPreparedSceneObject(
+      target,
+      prepared,
+      camera,
+      wireOptions,
+      occlusion,
+      drawEdges
+    );
+    target.endGroup?.();
+  }
+}
+
+// Function to draw a scene object by projecting vertices and rendering polygon edges
+// With hidden-line removal or filled modes on, the object only occludes itself;
+// use drawWorld for occlusion and depth sorting between objects
+export function drawSceneObject(
+  target: RenderTarget,
+  sceneObject: SceneObject,
+  camera: Camera,
+  options: Partial<RenderOptions> = {}
+): void {
+  const renderOptions = resolveRenderOptions(options);
+  renderPreparedObjects(
+    target,
+    [prepareSceneObject(sceneObject, camera, renderOptions)],
+    camera,
+    renderOptions
+  );
 }
 
 // Function to draw the entire world by rendering all scene objects
-export function drawWorld(canvas: Canvas, world: World, camera: Camera): void {
+export function drawWorld(
+  target: RenderTarget,
+  world: World,
+  camera: Camera,
+  options: Partial<RenderOptions> = {}
+): void {
+  const renderOptions = resolveRenderOptions(options);
+  const objects = world.getObjects();
+
   // Culling pass: Test all objects against frustum
-  for (const sceneObject of world.getObjects()) {
-    cullSceneObject(sceneObject, camera);
+  // With a spatial index, subtrees of the hierarchy outside the view are
+  // rejected without visiting their objects
+  if (world.hasSpatialIndex()) {
+    const visible = new Set(world.queryFrustum(camera));
+    for (const sceneObject of objects) {
+      sceneObject.setVisibilityState(
+        visible.has(sceneObject)
+          ? VisibilityState.VISIBLE
+          : VisibilityState.CULLED
+      );
+    }
+  } else {
+    const viewMatrix = camera.getViewMatrix();
+    for (const sceneObject of objects) {
+      cullSceneObject(sceneObject, camera, viewMatrix);
+    }
   }
 
-  // Rendering pass: Draw only visible objects
-  for (const sceneObject of world.getObjects()) {
+  // Transform pass: camera-space data for visible objects
+  // Polygon ids are numbered across all objects for the occlusion buffer
+  // Group names are object ids, so they match world.getObjectById
+  const preparedObjects: PreparedSceneObject[] = [];
+  let polygonIdOffset = 0;
+  objects.forEach((sceneObject) => {
     if (sceneObject.isVisible()) {
-      drawSceneObject(canvas, sceneObject, camera);
+      preparedObjects.push(
+        prepareSceneObject(sceneObject, camera, renderOptions, polygonIdOffset)
+      );
+      polygonIdOffset += sceneObject.getMesh().getPolygons().length;
     }
-  }
+  });
+
+  // Rendering pass: fills and/or edges of the visible objects
+  renderPreparedObjects(target, preparedObjects, camera, renderOptions);
 }
@@ -0,0 +1,17 @@
+import { Clock, FrameCallback } from "./Clock";
+
+// AnimationFrameClock class: browser frames from requestAnimationFrame
+// Frames follow the display refresh and pause while the tab is hidden
+export class AnimationFrameClock implements Clock {
+  public now(): number {
+    return performance.now();
+  }
+
+  public requestFrame(callback: FrameCallback): number {
+    return requestAnimationFrame(callback);
+  }
+
+  public cancelFrame(handle: number): void {
+    cancelAnimationFrame(handle);
+  }
+}
@@ -0,0 +1,208 @@
+import { SceneObject } from "./SceneObject";
+import { Quaternion } from "./Quaternion";
+import { LoopMode } from "./LoopMode";
+import { Easing, EasingFunction } from "./easing";
+
+// SceneObject transform properties a track can drive
+export type AnimatedProperty = "position" | "rotation" | "scale";
+
+// A value at a point in time
+// The easing shapes the segment from this keyframe to the next one
+export interface Keyframe {
+  time: number; // Seconds from the start of the track
+  value: { x: number; y: number; z: number };
+  easing?: EasingFunction; // Defaults to linear
+}
+
+export interface AnimationTrackOptions {
+  loopMode?: LoopMode;
+  speed?: number; // Playback rate multiplier (1 = real time)
+  // Interpolate rotation keyframes along the shortest arc (quaternion slerp)
+  // instead of per-axis Euler angles. Euler interpolation is needed for full
+  // turns (0° → 360°), which slerp would treat as no rotation at all
+  slerpRotation?: boolean;
+}
+
+// AnimationTrack class: keyframed animation of one property of one SceneObject
+// Tracks only write the object's transform, never its (shared) mesh data
+export class AnimationTrack {
+  private _target: SceneObject;
+  private _property: AnimatedProperty;
+  private _keyframes: Keyframe[];
+  private _loopMode: LoopMode;
+  private _slerpRotation: boolean;
+  private _time: number; // Accumulated playback time (before looping)
+
+  public speed: number;
+
+  constructor(
+    target: SceneObject,
+    property: AnimatedProperty,
+    keyframes: Keyframe[],
+    options: AnimationTrackOptions = {}
+  ) {
+    if (keyframes.length === 0) {
+      throw new Error("AnimationTrack needs at least one keyframe");
+    }
+
+    this._target = target;
+    this._property = property;
+    this._keyframes = [...keyframes].sort((a, b) => a.time - b.time);
+    this._loopMode = options.loopMode ?? LoopMode.ONCE;
+    this._slerpRotation = options.slerpRotation ?? false;
+    this.speed = options.speed ?? 1;
+    this._time = 0;
+  }
+
+  public getTarget(): SceneObject {
+    return this._target;
+  }
+
+  public getProperty(): AnimatedProperty {
+    return this._property;
+  }
+
+  public getKeyframes(): Keyframe[] {
+    return this._keyframes;
+  }
+
+  public getLoopMode(): LoopMode {
+    return this._loopMode;
+  }
+
+  public setLoopMode(loopMode: LoopMode): void {
+    this._loopMode = loopMode;
+  }
+
+  // Length of one pass through the keyframes (time of the last keyframe)
+  public getDuration(): number {
+    return this._keyframes[this._keyframes.length - 1].time;
+  }
+
+  // Accumulated playback time in seconds
+  public getTime(): number {
+    return this._time;
+  }
+
+  // Only ONCE tracks finish; looping tracks play forever
+  public isFinished(): boolean {
+    return this._loopMode === LoopMode.ONCE && this._time >= this.getDuration();
+  }
+
+  // Advance playback by deltaTime seconds and apply the value to the target
+  public update(deltaTime: number): void {
+    this.seek(this._time + deltaTime * this.speed);
+  }
+
+  // Jump to an absolute playback time and apply the value to the target
+  public seek(time: number): void {
+    this._time = Math.max(0, time);
+    this.apply();
+  }
+
+  // Rewind to the start
+  public reset(): void {
+    this.seek(0);
+  }
+
+  // Playback time mapped into [0, duration] according to the loop mode
+  public getLocalTime(): number {
+    const duration = this.getDuration();
+    if (duration <= 0) {
+      return 0;
+    }
+
+    switch (this._loopMode) {
+      case LoopMode.LOOP:
+        return this._time % duration;
+      case LoopMode.PING_PONG: {
+        const cycleTime = this._time % (duration * 2);
+        return cycleTime <= duration ? cycleTime : duration * 2 - cycleTime;
+      }
+      case LoopMode.ONCE:
+      default:
+        return Math.min(this._time, duration);
+    }
+  }
+
+  // Interpolated value at the current playback time
+  public evaluate(): { x: number; y: number; z: number } {
+    const { from, to, t } = this.findSegment(this.getLocalTime());
+    const easing = from.easing ?? Easing.linear;
+    const progress = easing(t);
+
+    return {
+      x: from.value.x + (to.value.x - from.value.x) * progress,
+      y: from.value.y + (to.value.y - from.value.y) * progress,
+      z: from.value.z + (to.value.z - from.value.z) * progress,
+    };
+  }
+
+  // Write the current value to the target's transform
+  private apply(): void {
+    switch (this._property) {
+      case "position": {
+        const { x, y, z } = this.evaluate();
+        this._target.setPosition(x, y, z);
+        break;
+      }
+      case "scale": {
+        const { x, y, z } = this.evaluate();
+        this._target.setScale(x, y, z);
+        break;
+      }
+      case "rotation":
+        if (this._slerpRotation) {
+          this._target.setRotationQuaternion(this.evaluateRotationSlerp());
+        } else {
+          const { x, y, z } = this.evaluate();
+          this._target.setRotation(x, y, z);
+        }
+        break;
+    }
+  }
+
+  // Rotation keyframes interpolated as quaternions
+  private evaluateRotationSlerp(): Quaternion {
+    const { from, to, t } = this.findSegment(this.getLocalTime());
+    const easing = from.easing ?? Easing.linear;
+    const toQuaternion = (v: { x: number; y: number; z: number }) =>
+      Quaternion.fromEuler(v.x, v.y, v.z, "ZYX");
+
+    return Quaternion.slerp(
+      toQuaternion(from.value),
+      toQuaternion(to.value),
+      easing(t)
+    );
+  }
+
+  // Find the keyframes surrounding a local time and the normalized position between them
+  private findSegment(localTime: number): {
+    from: Keyframe;
+    to: Keyframe;
+    t: number;
+  } {
+    const keyframes = this._keyframes;
+    const first = keyframes[0];
+    const last = keyframes[keyframes.length - 1];
+
+    // Hold the first/last value outside the keyframe range
+    if (localTime <= first.time) {
+      return { from: first, to: first, t: 0 };
+    }
+    if (localTime >= last.time) {
+      return { from: last, to: last, t: 0 };
+    }
+
+    for (let i = 0; i < keyframes.length - 1; i++) {
+      const from = keyframes[i];
+      const to = keyframes[i + 1];
+      if (localTime < to.time) {
+        const span = to.time - from.time;
+        return { from, to, t: span > 0 ? (localTime - from.time) / span : 1 };
+      }
+    }
+
+    return { from: last, to: last, t: 0 };
+  }
+}
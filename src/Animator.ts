@@ -0,0 +1,50 @@
+import { AnimationTrack } from "./AnimationTrack";
+import { SceneObject } from "./SceneObject";
+
+// Animator class advances a set of animation tracks by a shared delta time
+export class Animator {
+  private _tracks: AnimationTrack[];
+
+  constructor() {
+    this._tracks = [];
+  }
+
+  // Add a track (it starts playing on the next update)
+  public addTrack(track: AnimationTrack): AnimationTrack {
+    this._tracks.push(track);
+    return track;
+  }
+
+  // Remove a track
+  public removeTrack(track: AnimationTrack): void {
+    this._tracks = this._tracks.filter((t) => t !== track);
+  }
+
+  // Remove all tracks driving a given scene object
+  public removeTracksFor(sceneObject: SceneObject): void {
+    this._tracks = this._tracks.filter((t) => t.getTarget() !== sceneObject);
+  }
+
+  // Get all tracks
+  public getTracks(): AnimationTrack[] {
+    return this._tracks;
+  }
+
+  // Advance all tracks; finished (non-looping) tracks are dropped afterwards
+  public update(deltaTime: number): void {
+    for (const track of this._tracks) {
+      track.update(deltaTime);
+    }
+    this._tracks = this._tracks.filter((track) => !track.isFinished());
+  }
+
+  // Remove all tracks
+  public clear(): void {
+    this._tracks = [];
+  }
+
+  // Get number of active tracks
+  public get trackCount(): number {
+    return this._tracks.length;
+  }
+}
@@ -0,0 +1,114 @@
+import { Vec3 } from "./Vec3";
+import { Ray } from "./Ray";
+
+// BoundingBox class: immutable axis-aligned box (min/max corners)
+// Node volume of the BoundingVolumeHierarchy
+export class BoundingBox {
+  public readonly min: Vec3;
+  public readonly max: Vec3;
+
+  constructor(min: Vec3, max: Vec3) {
+    this.min = min;
+    this.max = max;
+  }
+
+  // Smallest box around a sphere
+  public static fromSphere(
+    center: { x: number; y: number; z: number },
+    radius: number
+  ): BoundingBox {
+    return new BoundingBox(
+      new Vec3(center.x - radius, center.y - radius, center.z - radius),
+      new Vec3(center.x + radius, center.y + radius, center.z + radius)
+    );
+  }
+
+  // Smallest box containing both boxes
+  public union(box: BoundingBox): BoundingBox {
+    return new BoundingBox(
+      new Vec3(
+        Math.min(this.min.x, box.min.x),
+        Math.min(this.min.y, box.min.y),
+        Math.min(this.min.z, box.min.z)
+      ),
+      new Vec3(
+        Math.max(this.max.x, box.max.x),
+        Math.max(this.max.y, box.max.y),
+        Math.max(this.max.z, box.max.z)
+      )
+    );
+  }
+
+  // Box grown by margin on every side
+  public expand(margin: number): BoundingBox {
+    const offset = new Vec3(margin, margin, margin);
+    return new BoundingBox(this.min.subtract(offset), this.max.add(offset));
+  }
+
+  public contains(box: BoundingBox): boolean {
+    return (
+      this.min.x <= box.min.x &&
+      this.min.y <= box.min.y &&
+      this.min.z <= box.min.z &&
+      this.max.x >= box.max.x &&
+      this.max.y >= box.max.y &&
+      this.max.z >= box.max.z
+    );
+  }
+
+  // True if the boxes overlap (touching counts)
+  public intersectsBox(box: BoundingBox): boolean {
+    return (
+      this.min.x <= box.max.x &&
+      this.min.y <= box.max.y &&
+      this.min.z <= box.max.z &&
+      this.max.x >= box.min.x &&
+      this.max.y >= box.min.y &&
+      this.max.z >= box.min.z
+    );
+  }
+
+  // Surface area, the cost measure for building the hierarchy
+  public surfaceArea(): number {
+    const dx = this.max.x - this.min.x;
+    const dy = this.max.y - this.min.y;
+    const dz = this.max.z - this.min.z;
+    return 2 * (dx * dy + dy * dz + dz * dx);
+  }
+
+  public intersectsSphere(
+    center: { x: number; y: number; z: number },
+    radius: number
+  ): boolean {
+    // Distance from the center to the closest point of the box
+    const dx = Math.max(this.min.x - center.x, 0, center.x - this.max.x);
+    const dy = Math.max(this.min.y - center.y, 0, center.y - this.max.y);
+    const dz = Math.max(this.min.z - center.z, 0, center.z - this.max.z);
+    return dx * dx + dy * dy + dz * dz <= radius * radius;
+  }
+
+  // Slab test: true if the ray enters the box within maxDistance
+  public intersectsRay(ray: Ray, maxDistance: number = Infinity): boolean {
+    let near = 0;
+    let far = maxDistance;
+    for (const axis of ["x", "y", "z"] as const) {
+      const origin = ray.origin[axis];
+      const direction = ray.direction[axis];
+      if (direction === 0) {
+        // Parallel to the slab: inside it or never
+        if (origin < this.min[axis] || origin > this.max[axis]) {
+          return false;
+        }
+        continue;
+      }
+      const t1 = (this.min[axis] - origin) / direction;
+      const t2 = (this.max[axis] - origin) / direction;
+      near = Math.max(near, Math.min(t1, t2));
+      far = Math.min(far, Math.max(t1, t2));
+      if (near > far) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,316 @@
+import { Vec3 } from "./Vec3";
+import { Ray } from "./Ray";
+import { BoundingBox } from "./BoundingBox";
+import { Frustum, FrustumIntersection } from "./Frustum";
+
+// Tree nodes: leaves hold an item, inner nodes always have two children
+interface BvhLeaf<T> {
+  type: "leaf";
+  box: BoundingBox; // The item's box grown by the margin
+  parent: BvhInner<T> | null;
+  item: T;
+  height: 0;
+}
+
+interface BvhInner<T> {
+  type: "inner";
+  box: BoundingBox; // Union of the children's boxes
+  parent: BvhInner<T> | null;
+  left: BvhNode<T>;
+  right: BvhNode<T>;
+  height: number; // Longest path down to a leaf
+}
+
+type BvhNode<T> = BvhLeaf<T> | BvhInner<T>;
+
+// BoundingVolumeHierarchy class: dynamic AABB tree for moving items
+// Leaves store a "fat" box (the item's box plus a margin), so small moves
+// don't touch the tree at all; larger moves remove and reinsert the leaf.
+// Insertion picks the sibling that grows the total surface area least and
+// rotations keep the tree balanced, so queries stay O(log n) on average
+// while whole subtrees are rejected by a single box test
+export class BoundingVolumeHierarchy<T> {
+  private _root: BvhNode<T> | null;
+  private _leaves: Map<T, BvhLeaf<T>>;
+  private _margin: number;
+
+  constructor(margin: number = 0) {
+    if (margin < 0) {
+      throw new Error(`BVH margin must be non-negative, got ${margin}`);
+    }
+    this._root = null;
+    this._leaves = new Map();
+    this._margin = margin;
+  }
+
+  public get size(): number {
+    return this._leaves.size;
+  }
+
+  // Height of the tree (0 = empty or a single leaf)
+  public getHeight(): number {
+    return this._root?.height ?? 0;
+  }
+
+  public has(item: T): boolean {
+    return this._leaves.has(item);
+  }
+
+  public insert(item: T, box: BoundingBox): void {
+    if (this._leaves.has(item)) {
+      throw new Error("Item is already in the BVH");
+    }
+    const leaf: BvhLeaf<T> = {
+      type: "leaf",
+      box: box.expand(this._margin),
+      parent: null,
+      item,
+      height: 0,
+    };
+    this._leaves.set(item, leaf);
+    this.insertLeaf(leaf);
+  }
+
+  // Move an item; returns true if the tree had to change
+  public update(item: T, box: BoundingBox): boolean {
+    const leaf = this._leaves.get(item);
+    if (!leaf) {
+      throw new Error("Item is not in the BVH");
+    }
+    if (leaf.box.contains(box)) {
+      return false; // Still inside its fat box
+    }
+    this.removeLeaf(leaf);
+    leaf.box = box.expand(this._margin);
+    this.insertLeaf(leaf);
+    return true;
+  }
+
+  public remove(item: T): void {
+    const leaf = this._leaves.get(item);
+    if (leaf) {
+      this.removeLeaf(leaf);
+      this._leaves.delete(item);
+    }
+  }
+
+  public clear(): void {
+    this._root = null;
+    this._leaves.clear();
+  }
+
+  // Items whose fat box touches the frustum
+  // `contained` is true when the box is entirely inside, so the caller can
+  // skip its own exact test
+  public queryFrustum(
+    frustum: Frustum,
+    callback: (item: T, contained: boolean) => void
+  ): void {
+    const visit = (node: BvhNode<T>, contained: boolean): void => {
+      if (!contained) {
+        const intersection = frustum.classifyBox(node.box);
+        if (intersection === FrustumIntersection.OUTSIDE) {
+          return;
+        }
+        contained = intersection === FrustumIntersection.INSIDE;
+      }
+      if (node.type === "leaf") {
+        callback(node.item, contained);
+      } else {
+        visit(node.left, contained);
+        visit(node.right, contained);
+      }
+    };
+    if (this._root) {
+      visit(this._root, false);
+    }
+  }
+
+  // Items whose fat box the ray enters within maxDistance
+  public queryRay(
+    ray: Ray,
+    maxDistance: number,
+    callback: (item: T) => void
+  ): void {
+    this.query((box) => box.intersectsRay(ray, maxDistance), callback);
+  }
+
+  // Items whose fat box touches the sphere
+  public querySphere(
+    center: Vec3,
+    radius: number,
+    callback: (item: T) => void
+  ): void {
+    this.query((box) => box.intersectsSphere(center, radius), callback);
+  }
+
+  // Items whose fat box overlaps the box
+  public queryBox(box: BoundingBox, callback: (item: T) => void): void {
+    this.query((nodeBox) => nodeBox.intersectsBox(box), callback);
+  }
+
+  // Depth-first walk into every node whose box passes the test
+  private query(
+    test: (box: BoundingBox) => boolean,
+    callback: (item: T) => void
+  ): void {
+    const stack: BvhNode<T>[] = this._root ? [this._root] : [];
+    for (let node = stack.pop(); node !== undefined; node = stack.pop()) {
+      if (!test(node.box)) {
+        continue;
+      }
+      if (node.type === "leaf") {
+        callback(node.item);
+      } else {
+        stack.push(node.left, node.right);
+      }
+    }
+  }
+
+  private insertLeaf(leaf: BvhLeaf<T>): void {
+    if (this._root === null) {
+      this._root = leaf;
+      leaf.parent = null;
+      return;
+    }
+
+    // Descend towards the sibling with the lowest cost: the new parent's
+    // area plus the growth of every ancestor on the way
+    let sibling: BvhNode<T> = this._root;
+    while (sibling.type === "inner") {
+      const { left, right } = sibling;
+      const area = sibling.box.surfaceArea();
+      const combinedArea = sibling.box.union(leaf.box).surfaceArea();
+      const cost = 2 * combinedArea; // Pair with this node
+      const inheritance = 2 * (combinedArea - area); // Growth pushed down
+
+      const childCost = (child: BvhNode<T>): number => {
+        const grown = child.box.union(leaf.box).surfaceArea();
+        return (
+          (child.type === "leaf" ? grown : grown - child.box.surfaceArea()) +
+          inheritance
+        );
+      };
+      const leftCost = childCost(left);
+      const rightCost = childCost(right);
+
+      if (cost < leftCost && cost < rightCost) {
+        break;
+      }
+      sibling = leftCost < rightCost ? left : right;
+    }
+
+    // New inner node in the sibling's place
+    const oldParent = sibling.parent;
+    const parent: BvhInner<T> = {
+      type: "inner",
+      box: sibling.box.union(leaf.box),
+      parent: oldParent,
+      left: sibling,
+      right: leaf,
+      height: sibling.height + 1,
+    };
+    this.replaceChild(oldParent, sibling, parent);
+    sibling.parent = parent;
+    leaf.parent = parent;
+
+    this.refitAncestors(parent.parent);
+  }
+
+  private removeLeaf(leaf: BvhLeaf<T>): void {
+    const parent = leaf.parent;
+    if (parent === null) {
+      this._root = null; // The only node
+      return;
+    }
+
+    // The sibling takes the parent's place
+    const grandParent = parent.parent;
+    const sibling = parent.left === leaf ? parent.right : parent.left;
+    this.replaceChild(grandParent, parent, sibling);
+    sibling.parent = grandParent;
+    leaf.parent = null;
+
+    this.refitAncestors(grandParent);
+  }
+
+  // Walk up from node, rebalancing and recomputing boxes and heights
+  private refitAncestors(node: BvhInner<T> | null): void {
+    while (node !== null) {
+      node = this.balance(node);
+      const { left, right } = node;
+      node.box = left.box.union(right.box);
+      node.height = 1 + Math.max(left.height, right.height);
+      node = node.parent;
+    }
+  }
+
+  // Point parent (or the root) at newChild instead of oldChild
+  private replaceChild(
+    parent: BvhInner<T> | null,
+    oldChild: BvhNode<T>,
+    newChild: BvhNode<T>
+  ): void {
+    if (parent === null) {
+      this._root = newChild;
+    } else if (parent.left === oldChild) {
+      parent.left = newChild;
+    } else {
+      parent.right = newChild;
+    }
+  }
+
+  // If one child of a is two levels taller than the other, rotate the
+  // taller child up. Returns the node now at a's position
+  private balance(a: BvhInner<T>): BvhInner<T> {
+    if (a.height < 2) {
+      return a;
+    }
+    const b = a.left;
+    const c = a.right;
+    const difference = c.height - b.height;
+
+    // A child two levels taller than its sibling is an inner node
+    if (difference > 1 && c.type === "inner") {
+      // c becomes the parent of a; a keeps c's shorter child
+      const f = c.left;
+      const g = c.right;
+      c.left = a;
+      c.parent = a.parent;
+      a.parent = c;
+      this.replaceChild(c.parent, a, c);
+
+      const [taller, shorter] = f.height > g.height ? [f, g] : [g, f];
+      c.right = taller;
+      a.right = shorter;
+      shorter.parent = a;
+      a.box = b.box.union(shorter.box);
+      a.height = 1 + Math.max(b.height, shorter.height);
+      c.box = a.box.union(taller.box);
+      c.height = 1 + Math.max(a.height, taller.height);
+      return c;
+    }
+
+    if (difference < -1 && b.type === "inner") {
+      // Mirror image: b becomes the parent of a
+      const d = b.left;
+      const e = b.right;
+      b.left = a;
+      b.parent = a.parent;
+      a.parent = b;
+      this.replaceChild(b.parent, a, b);
+
+      const [taller, shorter] = d.height > e.height ? [d, e] : [e, d];
+      b.right = taller;
+      a.left = shorter;
+      shorter.parent = a;
+      a.box = c.box.union(shorter.box);
+      a.height = 1 + Math.max(c.height, shorter.height);
+      b.box = a.box.union(taller.box);
+      b.height = 1 + Math.max(a.height, taller.height);
+      return b;
+    }
+
+    return a;
+  }
+}
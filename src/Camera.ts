@@ -1,14 +1,70 @@
+import { ProjectionMode } from "./ProjectionMode";
+import { Mat4 } from "./Mat4";
+import { Quaternion } from "./Quaternion";
+import { Vec3 } from "./Vec3";
+import {
+  DEFAULT_FOV,
+  DEFAULT_ORTHO_SIZE,
+  DEFAULT_NEAR_PLANE,
+  DEFAULT_FAR_PLANE,
+  SCREEN_WIDTH,
+  SCREEN_HEIGHT,
+} from "./constants";
+
+// Projection parameters owned by each camera
+export interface CameraProjectionSettings {
+  fov: number; // Vertical field of view in degrees
+  near: number; // Near clipping plane (camera space Z)
+  far: number; // Far clipping plane (camera space Z)
+  aspect: number; // Viewport width / height
+  viewportWidth: number; // Output size in pixels
+  viewportHeight: number;
+  zoom: number; // Magnification factor applied on top of the FOV (or ortho size)
+  projectionMode: ProjectionMode;
+  orthoSize: number; // Half of the visible height in world units (orthographic only)
+}
+
+// Axis-aligned views for technical drawings (orthographic cameras)
+export type AxisView = "front" | "back" | "left" | "right" | "top" | "bottom";
+
 // Camera class representing the viewer's position and orientation in the 3D world
 export class Camera {
   public position: { x: number; y: number; z: number };
   public rotation: { x: number; y: number; z: number }; // Euler angles in degrees (pitch, yaw, roll)
 
+  // Projection parameters (read by culling, clipping and projection)
+  public fov: number;
+  public near: number;
+  public far: number;
+  public aspect: number;
+  public viewportWidth: number;
+  public viewportHeight: number;
+  public zoom: number;
+  public projectionMode: ProjectionMode;
+  public orthoSize: number;
+
+  // Orientation stored as a quaternion (overrides Euler rotation when set)
+  private _orientation: Quaternion | null;
+
   constructor(
     position = { x: 0, y: 0, z: 0 },
-    rotation = { x: 0, y: 0, z: 0 }
+    rotation = { x: 0, y: 0, z: 0 },
+    projection: Partial<CameraProjectionSettings> = {}
   ) {
     this.position = position;
     this.rotation = rotation;
+
+    this.viewportWidth = projection.viewportWidth ?? SCREEN_WIDTH;
+    this.viewportHeight = projection.viewportHeight ?? SCREEN_HEIGHT;
+    this.aspect = projection.aspect ?? this.viewportWidth / this.viewportHeight;
+    this.fov = projection.fov ?? DEFAULT_FOV;
+    this.near = projection.near ?? DEFAULT_NEAR_PLANE;
+    this.far = projection.far ?? DEFAULT_FAR_PLANE;
+    this.zoom = projection.zoom ?? 1;
+    this.projectionMode =
+      projection.projectionMode ?? ProjectionMode.PERSPECTIVE;
+    this.orthoSize = projection.orthoSize ?? DEFAULT_ORTHO_SIZE;
+    this._orientation = null;
   }
 
   // Helper to set position
@@ -19,15 +75,184 @@ export class Camera {
   // Helper to set rotation
   public setRotation(x: number, y: number, z: number): void {
     this.rotation = { x, y, z };
+    this._orientation = null;
   }
 
-  // Create an orbital camera that looks at a target point
-  public static createOrbital(
+  // Orientation as a quaternion: the stored one, or the Euler angles
+  // converted with the camera order (yaw → pitch → roll)
+  public getOrientation(): Quaternion {
+    return (
+      this._orientation ??
+      Quaternion.fromEuler(
+        this.rotation.x,
+        this.rotation.y,
+        this.rotation.z,
+        "YXZ"
+      )
+    );
+  }
+
+  // Store the orientation as a quaternion (free of gimbal lock)
+  // Takes precedence over the Euler angles until setRotation is called
+  public setOrientation(orientation: Quaternion): void {
+    this._orientation = orientation.normalize();
+  }
+
+  public hasOrientation(): boolean {
+    return this._orientation !== null;
+  }
+
+  // Rotate around an axis in the camera's own space (e.g. (1, 0, 0) = pitch)
+  // Composes quaternions, so it works at any orientation including straight up/down
+  public rotateLocal(axis: Vec3, angleInDegrees: number): void {
+    this.setOrientation(
+      this.getOrientation().multiply(
+        Quaternion.fromAxisAngle(axis, angleInDegrees)
+      )
+    );
+  }
+
+  // Point the camera at a target, keeping `up` as the screen's up direction
+  public lookAt(
+    target: { x: number; y: number; z: number },
+    up: Vec3 = new Vec3(0, 1, 0)
+  ): void {
+    const forward = Vec3.from(target).subtract(Vec3.from(this.position));
+    if (forward.lengthSquared() === 0) {
+      return; // Target is at the camera position: no direction to look at
+    }
+    this.setOrientation(Quaternion.lookRotation(forward, up));
+  }
+
+  // Camera basis vectors in world space
+  public getForward(): Vec3 {
+    return this.getOrientation().rotateVector(new Vec3(0, 0, 1));
+  }
+
+  public getRight(): Vec3 {
+    return this.getOrientation().rotateVector(new Vec3(1, 0, 0));
+  }
+
+  public getUp(): Vec3 {
+    return this.getOrientation().rotateVector(new Vec3(0, 1, 0));
+  }
+
+  // World → camera space matrix: inverse of (translate · rotate)
+  public getViewMatrix(): Mat4 {
+    const inverseRotation = Mat4.fromQuaternion(
+      this.getOrientation().conjugate()
+    );
+    const inverseTranslation = Mat4.translation(
+      -this.position.x,
+      -this.position.y,
+      -this.position.z
+    );
+    return Mat4.multiply(inverseRotation, inverseTranslation);
+  }
+
+  // Camera → clip space matrix for the current projection mode
+  // Dividing clip X/Y by W yields NDC (see projectToNDC)
+  public getProjectionMatrix(): Mat4 {
+    if (this.isOrthographic()) {
+      const { halfWidth, halfHeight } = this.getOrthoHalfExtents();
+      return Mat4.orthographic(halfWidth, halfHeight);
+    }
+    return Mat4.perspective(this.getFocalLength(), this.aspect);
+  }
+
+  // World → clip space in one matrix
+  public getViewProjectionMatrix(): Mat4 {
+    return Mat4.multiply(this.getProjectionMatrix(), this.getViewMatrix());
+  }
+
+  // Helper to set the vertical field of view (degrees)
+  public setFov(fov: number): void {
+    if (fov <= 0 || fov >= 180) {
+      throw new Error(`Invalid FOV: expected (0, 180) degrees, got ${fov}`);
+    }
+    this.fov = fov;
+  }
+
+  // Helper to set zoom (2 = everything appears twice as large)
+  public setZoom(zoom: number): void {
+    if (zoom <= 0) {
+      throw new Error(`Invalid zoom: expected a positive value, got ${zoom}`);
+    }
+    this.zoom = zoom;
+  }
+
+  // Helper to set near and far clipping planes
+  public setClipPlanes(near: number, far: number): void {
+    if (near <= 0 || far <= near) {
+      throw new Error(
+        `Invalid clip planes: expected 0 < near < far, got near=${near}, far=${far}`
+      );
+    }
+    this.near = near;
+    this.far = far;
+  }
+
+  // Helper to resize the viewport (keeps the aspect ratio in sync)
+  public setViewportSize(width: number, height: number): void {
+    this.viewportWidth = width;
+    this.viewportHeight = height;
+    this.aspect = width / height;
+  }
+
+  // Helper to switch between perspective and orthographic projection
+  public setProjectionMode(mode: ProjectionMode): void {
+    this.projectionMode = mode;
+  }
+
+  // Helper to set the orthographic view size (half of the visible height)
+  public setOrthoSize(orthoSize: number): void {
+    if (orthoSize <= 0) {
+      throw new Error(
+        `Invalid ortho size: expected a positive value, got ${orthoSize}`
+      );
+    }
+    this.orthoSize = orthoSize;
+  }
+
+  public isOrthographic(): boolean {
+    return this.projectionMode === ProjectionMode.ORTHOGRAPHIC;
+  }
+
+  // Half extents of the orthographic view volume in world units (zoom applied)
+  public getOrthoHalfExtents(): { halfWidth: number; halfHeight: number } {
+    const halfHeight = this.orthoSize / this.zoom;
+    return { halfWidth: halfHeight * this.aspect, halfHeight };
+  }
+
+  // Focal length derived from FOV and zoom: 1 / tan(FOV / 2) scaled by zoom
+  public getFocalLength(): number {
+    const halfFovRad = (this.fov * Math.PI) / 360;
+    return this.zoom / Math.tan(halfFovRad);
+  }
+
+  // Get a copy of the current projection parameters
+  public getProjectionSettings(): CameraProjectionSettings {
+    return {
+      fov: this.fov,
+      near: this.near,
+      far: this.far,
+      aspect: this.aspect,
+      viewportWidth: this.viewportWidth,
+      viewportHeight: this.viewportHeight,
+      zoom: this.zoom,
+      projectionMode: this.projectionMode,
+      orthoSize: this.orthoSize,
+    };
+  }
+
+  // Place this camera on an orbit around a target point, looking at it
+  // Updates position and rotation in place so projection settings are kept
+  public orbit(
     distance: number,
     angleY: number, // Horizontal angle around target
     angleX: number = 0, // Vertical angle (elevation)
     target = { x: 0, y: 0, z: 0 }
-  ): Camera {
+  ): void {
     // Convert angles to radians
     const yRad = (angleY * Math.PI) / 180;
     const xRad = (angleX * Math.PI) / 180;
@@ -51,7 +276,64 @@ export class Camera {
     const distanceXZ = Math.sqrt(dx * dx + dz * dz);
     const rotX = -Math.atan2(dy, distanceXZ) * (180 / Math.PI);
 
-    const camera = new Camera({ x, y, z }, { x: rotX, y: rotY, z: 0 });
+    this.setPosition(x, y, z);
+    this.setRotation(rotX, rotY, 0);
+  }
+
+  // Create an orbital camera that looks at a target point
+  public static createOrbital(
+    distance: number,
+    angleY: number, // Horizontal angle around target
+    angleX: number = 0, // Vertical angle (elevation)
+    target = { x: 0, y: 0, z: 0 },
+    projection: Partial<CameraProjectionSettings> = {}
+  ): Camera {
+    const camera = new Camera(undefined, undefined, projection);
+    camera.orbit(distance, angleY, angleX, target);
+
+    return camera;
+  }
+
+  // Create an orthographic camera for a standard axis-aligned view
+  // Front looks along -Z (same as an orbit at angle 0), right looks along -X,
+  // top looks straight down with the front of the scene at the bottom
+  public static createAxisView(
+    view: AxisView,
+    distance: number,
+    orthoSize: number = DEFAULT_ORTHO_SIZE,
+    target = { x: 0, y: 0, z: 0 },
+    projection: Partial<CameraProjectionSettings> = {}
+  ): Camera {
+    const camera = new Camera(undefined, undefined, {
+      ...projection,
+      projectionMode: ProjectionMode.ORTHOGRAPHIC,
+      orthoSize,
+    });
+
+    switch (view) {
+      case "front":
+        camera.orbit(distance, 0, 0, target);
+        break;
+      case "back":
+        camera.orbit(distance, 180, 0, target);
+        break;
+      case "right":
+        camera.orbit(distance, 90, 0, target);
+        break;
+      case "left":
+        camera.orbit(distance, -90, 0, target);
+        break;
+      // Straight up/down views are set directly: the look-at math in orbit()
+      // has no defined yaw when the view direction is parallel to Y
+      case "top":
+        camera.setPosition(target.x, target.y + distance, target.z);
+        camera.setRotation(90, 180, 0);
+        break;
+      case "bottom":
+        camera.setPosition(target.x, target.y - distance, target.z);
+        camera.setRotation(-90, 180, 0);
+        break;
+    }
 
     return camera;
   }
@@ -0,0 +1,16 @@
+// Common interface of camera controllers (OrbitController, FlyController,
+// FirstPersonController)
+export interface CameraController {
+  // Apply the input received since the last call and move the camera
+  // deltaTime in seconds, so motion is frame-rate independent
+  update(deltaTime: number): void;
+  // Stop listening to the input source
+  dispose(): void;
+}
+
+// Fraction of the remaining distance to cover this frame for exponential
+// smoothing with the given time constant (seconds for ~63% of a change;
+// 0 = no damping). Frame-rate independent: two half steps equal one full step
+export function getDampingFactor(damping: number, deltaTime: number): number {
+  return damping > 0 ? 1 - Math.exp(-deltaTime / damping) : 1;
+}
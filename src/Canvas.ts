@@ -1,11 +1,14 @@
 import { SCREEN_WIDTH, SCREEN_HEIGHT } from './constants';
+import { Point2D } from './Point2D';
+import { RenderTarget } from './RenderTarget';
 
 // Canvas class to manage HTML5 Canvas element and context
-export class Canvas {
+// Browser implementation of RenderTarget
+export class Canvas implements RenderTarget {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
 
-    constructor(canvasId: string) {
+    constructor(canvasId: string, width: number = SCREEN_WIDTH, height: number = SCREEN_HEIGHT) {
         const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
         if (!canvas) {
             throw new Error(`Canvas with id '${canvasId}' not found`);
@@ -13,9 +16,9 @@ export class Canvas {
 
         this.canvas = canvas;
         
-        // Set canvas dimensions from constants
-        this.canvas.width = SCREEN_WIDTH;
-        this.canvas.height = SCREEN_HEIGHT;
+        // Set canvas dimensions (defaults come from constants)
+        this.canvas.width = width;
+        this.canvas.height = height;
         
         const context = this.canvas.getContext('2d');
         if (!context) {
@@ -33,17 +36,51 @@ export class Canvas {
         return this.ctx;
     }
 
+    public get width(): number {
+        return this.canvas.width;
+    }
+
+    public get height(): number {
+        return this.canvas.height;
+    }
+
     public clearScreen(color: string = '#000000'): void {
         this.ctx.fillStyle = color;
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
     }
 
-    public drawLine(x1: number, y1: number, x2: number, y2: number, color: string = '#ffffff', lineWidth: number = 2): void {
+    // dash is a canvas dash pattern (e.g. [4, 4]); empty for a solid line
+    public drawLine(x1: number, y1: number, x2: number, y2: number, color: string = '#ffffff', lineWidth: number = 2, dash: number[] = []): void {
         this.ctx.strokeStyle = color;
         this.ctx.lineWidth = lineWidth;
+        this.ctx.setLineDash(dash);
         this.ctx.beginPath();
         this.ctx.moveTo(x1, y1);
         this.ctx.lineTo(x2, y2);
         this.ctx.stroke();
     }
+
+    // Fill a closed polygon (at least 3 points) with a solid color
+    public fillPolygon(points: Point2D[], color: string = '#ffffff'): void {
+        if (points.length < 3) {
+            return;
+        }
+
+        this.ctx.fillStyle = color;
+        this.ctx.beginPath();
+        this.ctx.moveTo(points[0].x, points[0].y);
+        for (let i = 1; i < points.length; i++) {
+            this.ctx.lineTo(points[i].x, points[i].y);
+        }
+        this.ctx.closePath();
+        this.ctx.fill();
+    }
+
+    // Draw text with its top-left corner at (x, y); size is the font height in pixels
+    public drawText(text: string, x: number, y: number, color: string = '#ffffff', size: number = 14): void {
+        this.ctx.fillStyle = color;
+        this.ctx.font = `${size}px monospace`;
+        this.ctx.textBaseline = 'top';
+        this.ctx.fillText(text, x, y);
+    }
 }
\ No newline at end of file
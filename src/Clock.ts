@@ -0,0 +1,12 @@
+// Called once at a frame with the frame time (milliseconds)
+export type FrameCallback = (time: number) => void;
+
+// Source of time and frame callbacks for the Engine
+// Times are milliseconds on a monotonic timeline (like performance.now)
+// Implementations: AnimationFrameClock (browser), ManualClock (tests, tools)
+export interface Clock {
+  now(): number;
+  // Call back once at the next frame; returns a handle for cancelFrame
+  requestFrame(callback: FrameCallback): number;
+  cancelFrame(handle: number): void;
+}
@@ -0,0 +1,91 @@
+import { Point2D } from "./Point2D";
+import { Point3D } from "./Point3D";
+import { Mesh3D } from "./Mesh3D";
+import { Polyline3D } from "./Polyline3D";
+import { SceneObject } from "./SceneObject";
+import {
+  Curve3D,
+  TessellationOptions,
+  sampleCurve,
+  tessellateCurve,
+} from "./curves";
+
+// Segments per span of the camera-independent tessellation
+const INITIAL_SEGMENTS_PER_SPAN = 16;
+
+// CurveObject class: a SceneObject that renders a parametric curve
+// Its mesh holds a single open (or closed) Polyline3D. drawWorld and
+// drawSceneObject re-tessellate it each frame against the camera, so the
+// curve stays smooth up close without wasting segments far away
+export class CurveObject extends SceneObject {
+  private _curve: Curve3D;
+  public color: string;
+  public tessellation: TessellationOptions;
+
+  constructor(
+    curve: Curve3D,
+    color: string = "#ffffff",
+    tessellation: TessellationOptions = {},
+    position = { x: 0, y: 0, z: 0 },
+    rotation = { x: 0, y: 0, z: 0 },
+    scale = { x: 1, y: 1, z: 1 }
+  ) {
+    // Uniform samples until the first frame: gives the bounding radius
+    // used for culling and a usable mesh without a camera
+    super(
+      createCurveMesh(
+        curve,
+        sampleCurve(curve, INITIAL_SEGMENTS_PER_SPAN),
+        color
+      ),
+      position,
+      rotation,
+      scale
+    );
+    this._curve = curve;
+    this.color = color;
+    this.tessellation = tessellation;
+  }
+
+  public getCurve(): Curve3D {
+    return this._curve;
+  }
+
+  // Swap the curve (the mesh is resampled uniformly until the next frame)
+  public setCurve(curve: Curve3D): void {
+    this._curve = curve;
+    this.setMesh(
+      createCurveMesh(
+        curve,
+        sampleCurve(curve, INITIAL_SEGMENTS_PER_SPAN),
+        this.color
+      )
+    );
+  }
+
+  // Rebuild the mesh for a view; project maps model space to screen space
+  public tessellate(project: (point: Point3D) => Point2D): void {
+    this.setMesh(
+      createCurveMesh(
+        this._curve,
+        tessellateCurve(this._curve, project, this.tessellation),
+        this.color
+      )
+    );
+  }
+}
+
+// Polyline mesh through the points; closed curves reuse the first vertex
+// at the end instead of duplicating it
+function createCurveMesh(
+  curve: Curve3D,
+  points: Point3D[],
+  color: string
+): Mesh3D {
+  const vertices = curve.closed ? points.slice(0, -1) : points;
+  const indices = vertices.map((_, i) => i);
+  if (curve.closed) {
+    indices.push(0);
+  }
+  return new Mesh3D(vertices, [], [new Polyline3D(color, indices)]);
+}
@@ -0,0 +1,124 @@
+import {
+  InputEvent,
+  InputListener,
+  InputSource,
+  PointerButton,
+} from "./InputSource";
+
+// Pixels per wheel notch for wheel events reported in pixels
+const WHEEL_PIXELS_PER_NOTCH = 100;
+// Lines per wheel notch for wheel events reported in lines
+const WHEEL_LINES_PER_NOTCH = 3;
+
+// DomInputSource class: translates browser events into InputEvents
+// Pointer and wheel events come from the element (usually the canvas),
+// keys from the window so they work without focusing the canvas
+export class DomInputSource implements InputSource {
+  private _element: HTMLElement;
+  private _listeners: InputListener[];
+  private _removeDomListeners: (() => void)[];
+
+  constructor(element: HTMLElement) {
+    this._element = element;
+    this._listeners = [];
+    this._removeDomListeners = [];
+
+    this.listen(element, "pointerdown", (event: PointerEvent) => {
+      const button = toPointerButton(event.button);
+      if (button) {
+        // Keep receiving moves while dragging outside the element
+        element.setPointerCapture(event.pointerId);
+        this.emit({ type: "pointerdown", button });
+      }
+    });
+    this.listen(element, "pointerup", (event: PointerEvent) => {
+      const button = toPointerButton(event.button);
+      if (button) {
+        this.emit({ type: "pointerup", button });
+      }
+    });
+    this.listen(element, "pointermove", (event: PointerEvent) => {
+      this.emit({
+        type: "pointermove",
+        dx: event.movementX,
+        dy: event.movementY,
+      });
+    });
+    this.listen(element, "wheel", (event: WheelEvent) => {
+      event.preventDefault(); // Don't scroll the page while zooming
+      const delta =
+        event.deltaMode === WheelEvent.DOM_DELTA_LINE
+          ? event.deltaY / WHEEL_LINES_PER_NOTCH
+          : event.deltaMode === WheelEvent.DOM_DELTA_PAGE
+          ? event.deltaY
+          : event.deltaY / WHEEL_PIXELS_PER_NOTCH;
+      this.emit({ type: "wheel", delta });
+    });
+    // Right-drag is used for panning
+    this.listen(element, "contextmenu", (event: Event) =>
+      event.preventDefault()
+    );
+
+    this.listen(window, "keydown", (event: KeyboardEvent) => {
+      if (!event.repeat) {
+        this.emit({ type: "keydown", key: event.code });
+      }
+    });
+    this.listen(window, "keyup", (event: KeyboardEvent) => {
+      this.emit({ type: "keyup", key: event.code });
+    });
+    this.listen(window, "blur", () => this.emit({ type: "blur" }));
+  }
+
+  public getElement(): HTMLElement {
+    return this._element;
+  }
+
+  public subscribe(listener: InputListener): () => void {
+    this._listeners.push(listener);
+    return () => {
+      this._listeners = this._listeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Remove the DOM event listeners
+  public dispose(): void {
+    for (const remove of this._removeDomListeners) {
+      remove();
+    }
+    this._removeDomListeners = [];
+  }
+
+  private emit(event: InputEvent): void {
+    for (const listener of [...this._listeners]) {
+      listener(event);
+    }
+  }
+
+  private listen<E extends Event>(
+    target: EventTarget,
+    type: string,
+    handler: (event: E) => void
+  ): void {
+    const listener = handler as EventListener;
+    // Non-passive so wheel events can prevent page scrolling
+    target.addEventListener(type, listener, { passive: false });
+    this._removeDomListeners.push(() =>
+      target.removeEventListener(type, listener)
+    );
+  }
+}
+
+// DOM button number → PointerButton (back/forward buttons are ignored)
+function toPointerButton(button: number): PointerButton | null {
+  switch (button) {
+    case 0:
+      return PointerButton.PRIMARY;
+    case 1:
+      return PointerButton.MIDDLE;
+    case 2:
+      return PointerButton.SECONDARY;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,317 @@
+import { World } from "./World";
+import { Camera } from "./Camera";
+import { RenderTarget } from "./RenderTarget";
+import { RenderOptions } from "./RenderOptions";
+import { CameraController } from "./CameraController";
+import { Clock } from "./Clock";
+import { AnimationFrameClock } from "./AnimationFrameClock";
+import { drawWorld } from "./3d-utils";
+
+// Anything advanced by the fixed-timestep update (e.g. an Animator)
+export interface Updatable {
+  update(deltaTime: number): void;
+}
+
+export type UpdateHook = (deltaTime: number) => void; // Seconds of this step
+export type RenderHook = (target: RenderTarget) => void;
+
+export interface EngineOptions {
+  fixedTimeStep?: number; // Simulated seconds per update (default 1/60)
+  // Updates allowed per frame; time beyond that is dropped, so a stalled
+  // tab or a slow frame doesn't trigger a burst of catch-up updates (default 5)
+  maxUpdatesPerFrame?: number;
+  timeScale?: number; // Simulated seconds per real second (default 1)
+  renderOptions?: Partial<RenderOptions>;
+  clock?: Clock; // Default AnimationFrameClock
+}
+
+// Slack when comparing accumulated time with the step, so frames exactly one
+// step long don't alternate between zero and two updates through rounding
+const TIME_EPSILON = 1e-9;
+
+// Engine class: runs the update/render loop for a world seen by a camera
+// Updates advance the simulation in fixed steps of scaled time (updatables
+// and update hooks); rendering happens once per clock frame, however many
+// steps that frame needed. Pausing or scaling time affects updates only: the
+// camera controller keeps running on real time and every frame is drawn,
+// so a paused scene can still be orbited and inspected
+export class Engine {
+  private _target: RenderTarget;
+  private _world: World;
+  private _camera: Camera;
+  private _cameraController: CameraController | null;
+  private _clock: Clock;
+  private _fixedTimeStep: number;
+  private _maxUpdatesPerFrame: number;
+  private _timeScale: number;
+  private _updatables: Updatable[];
+  private _beforeUpdate: UpdateHook[];
+  private _afterUpdate: UpdateHook[];
+  private _beforeRender: RenderHook[];
+  private _afterRender: RenderHook[];
+  private _running: boolean;
+  private _paused: boolean;
+  private _frameHandle: number | null;
+  private _lastFrameTime: number | null;
+  private _accumulator: number; // Scaled seconds not yet simulated
+  private _simulationTime: number;
+  private _updateCount: number;
+  private _frameCount: number;
+  public renderOptions: Partial<RenderOptions>;
+
+  constructor(
+    target: RenderTarget,
+    world: World,
+    camera: Camera,
+    options: EngineOptions = {}
+  ) {
+    this._fixedTimeStep = options.fixedTimeStep ?? 1 / 60;
+    if (!(this._fixedTimeStep > 0)) {
+      throw new Error(
+        `Fixed time step must be positive, got ${this._fixedTimeStep}`
+      );
+    }
+    this._maxUpdatesPerFrame = options.maxUpdatesPerFrame ?? 5;
+    if (
+      !Number.isInteger(this._maxUpdatesPerFrame) ||
+      this._maxUpdatesPerFrame < 1
+    ) {
+      throw new Error(
+        `Max updates per frame must be an integer >= 1, got ${this._maxUpdatesPerFrame}`
+      );
+    }
+
+    this._target = target;
+    this._world = world;
+    this._camera = camera;
+    this._cameraController = null;
+    this._clock = options.clock ?? new AnimationFrameClock();
+    this._timeScale = 1;
+    this.setTimeScale(options.timeScale ?? 1);
+    this._updatables = [];
+    this._beforeUpdate = [];
+    this._afterUpdate = [];
+    this._beforeRender = [];
+    this._afterRender = [];
+    this._running = false;
+    this._paused = false;
+    this._frameHandle = null;
+    this._lastFrameTime = null;
+    this._accumulator = 0;
+    this._simulationTime = 0;
+    this._updateCount = 0;
+    this._frameCount = 0;
+    this.renderOptions = options.renderOptions ?? {};
+  }
+
+  public getRenderTarget(): RenderTarget {
+    return this._target;
+  }
+
+  public getWorld(): World {
+    return this._world;
+  }
+
+  public setWorld(world: World): void {
+    this._world = world;
+  }
+
+  public getCamera(): Camera {
+    return this._camera;
+  }
+
+  // Switch the active camera (the camera controller keeps its own camera)
+  public setCamera(camera: Camera): void {
+    this._camera = camera;
+  }
+
+  public getCameraController(): CameraController | null {
+    return this._cameraController;
+  }
+
+  // Controller updated once per frame with real (unscaled) time
+  public setCameraController(controller: CameraController | null): void {
+    this._cameraController = controller;
+  }
+
+  public getClock(): Clock {
+    return this._clock;
+  }
+
+  public getFixedTimeStep(): number {
+    return this._fixedTimeStep;
+  }
+
+  // Add something to advance every update; returns a function that removes it
+  public addUpdatable(updatable: Updatable): () => void {
+    this._updatables.push(updatable);
+    return () => {
+      this._updatables = this._updatables.filter((u) => u !== updatable);
+    };
+  }
+
+  // Lifecycle hooks, each returning a function that removes the hook
+  // Update hooks run around every fixed step, render hooks around every frame
+  // Frame order: clear screen, beforeRender (backgrounds), draw the world,
+  // afterRender (overlays such as a HUD)
+  public onBeforeUpdate(hook: UpdateHook): () => void {
+    return addHook(this._beforeUpdate, hook);
+  }
+
+  public onAfterUpdate(hook: UpdateHook): () => void {
+    return addHook(this._afterUpdate, hook);
+  }
+
+  public onBeforeRender(hook: RenderHook): () => void {
+    return addHook(this._beforeRender, hook);
+  }
+
+  public onAfterRender(hook: RenderHook): () => void {
+    return addHook(this._afterRender, hook);
+  }
+
+  // Start requesting frames from the clock
+  public start(): void {
+    if (this._running) {
+      return;
+    }
+    this._running = true;
+    this._lastFrameTime = null; // Time spent stopped isn't simulated
+    this.requestFrame();
+  }
+
+  public stop(): void {
+    if (this._frameHandle !== null) {
+      this._clock.cancelFrame(this._frameHandle);
+      this._frameHandle = null;
+    }
+    this._running = false;
+  }
+
+  public isRunning(): boolean {
+    return this._running;
+  }
+
+  // Freeze the simulation (frames are still drawn)
+  public pause(): void {
+    this._paused = true;
+  }
+
+  public resume(): void {
+    this._paused = false;
+  }
+
+  public isPaused(): boolean {
+    return this._paused;
+  }
+
+  public getTimeScale(): number {
+    return this._timeScale;
+  }
+
+  // 0.5 = slow motion, 2 = fast forward, 0 = frozen
+  public setTimeScale(timeScale: number): void {
+    if (!(timeScale >= 0) || !Number.isFinite(timeScale)) {
+      throw new Error(`Time scale must be >= 0, got ${timeScale}`);
+    }
+    this._timeScale = timeScale;
+  }
+
+  // Run updates immediately (also while paused) and draw the result
+  public step(count: number = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.update();
+    }
+    this.render();
+  }
+
+  // Advance by frameTime real seconds: scaled time is simulated in fixed
+  // steps, then the frame is drawn. Called for every clock frame; call it
+  // directly to drive the engine without a clock
+  public advance(frameTime: number): void {
+    if (!this._paused) {
+      this._accumulator += frameTime * this._timeScale;
+      let updates = 0;
+      while (this._accumulator >= this._fixedTimeStep - TIME_EPSILON) {
+        if (updates === this._maxUpdatesPerFrame) {
+          this._accumulator = 0; // Drop the backlog
+          break;
+        }
+        this.update();
+        this._accumulator -= this._fixedTimeStep;
+        updates++;
+      }
+    }
+
+    this._cameraController?.update(frameTime);
+    this.render();
+  }
+
+  // Draw the world from the active camera now
+  public render(): void {
+    this._target.clearScreen();
+    runHooks(this._beforeRender, this._target);
+    drawWorld(this._target, this._world, this._camera, this.renderOptions);
+    runHooks(this._afterRender, this._target);
+    this._frameCount++;
+  }
+
+  // Simulated seconds since the engine was created
+  public getSimulationTime(): number {
+    return this._simulationTime;
+  }
+
+  public getUpdateCount(): number {
+    return this._updateCount;
+  }
+
+  public getFrameCount(): number {
+    return this._frameCount;
+  }
+
+  // One fixed step
+  private update(): void {
+    const deltaTime = this._fixedTimeStep;
+    runHooks(this._beforeUpdate, deltaTime);
+    for (const updatable of this._updatables) {
+      updatable.update(deltaTime);
+    }
+    runHooks(this._afterUpdate, deltaTime);
+    this._simulationTime += deltaTime;
+    this._updateCount++;
+  }
+
+  private requestFrame(): void {
+    this._frameHandle = this._clock.requestFrame((time) => {
+      this._frameHandle = null;
+      const frameTime =
+        this._lastFrameTime === null
+          ? 0
+          : Math.max(0, (time - this._lastFrameTime) / 1000);
+      this._lastFrameTime = time;
+      this.advance(frameTime);
+
+      // A hook may have stopped (or stopped and restarted) the engine
+      if (this._running && this._frameHandle === null) {
+        this.requestFrame();
+      }
+    });
+  }
+}
+
+// Copy first: a hook may remove itself (or others) while running
+function runHooks<T>(hooks: ((value: T) => void)[], value: T): void {
+  for (const hook of [...hooks]) {
+    hook(value);
+  }
+}
+
+function addHook<T>(hooks: T[], hook: T): () => void {
+  hooks.push(hook);
+  return () => {
+    const index = hooks.indexOf(hook);
+    if (index !== -1) {
+      hooks.splice(index, 1);
+    }
+  };
+}
@@ -0,0 +1,20 @@
+import { Vec3 } from "./Vec3";
+import { FlyController, MovementBasis } from "./FlyController";
+
+// FirstPersonController class: walking camera with a fixed up axis
+// Same mouse-look, keys and damping as FlyController, but movement stays in
+// the horizontal plane: looking down and pressing W walks forward instead
+// of into the ground. The up/down keys do nothing, so the eye height stays
+// where the camera was placed
+export class FirstPersonController extends FlyController {
+  protected getMovementBasis(): MovementBasis {
+    const forward = this._camera.getForward();
+    const horizontal = new Vec3(forward.x, 0, forward.z).normalize();
+    return {
+      forward: horizontal,
+      // Right of the horizontal forward direction (camera yaw order)
+      right: new Vec3(horizontal.z, 0, -horizontal.x),
+      up: Vec3.zero(),
+    };
+  }
+}
@@ -0,0 +1,165 @@
+import { Camera } from "./Camera";
+import { Vec3 } from "./Vec3";
+import { InputSource, PointerButton } from "./InputSource";
+import { InputTracker, getDragDelta } from "./InputTracker";
+import { CameraController, getDampingFactor } from "./CameraController";
+
+// Key codes (KeyboardEvent.code) for each movement action
+export interface MovementKeys {
+  forward: string[];
+  backward: string[];
+  left: string[];
+  right: string[];
+  up: string[];
+  down: string[];
+  fast: string[]; // Held to move at fastMultiplier × speed
+}
+
+export const DEFAULT_MOVEMENT_KEYS: MovementKeys = {
+  forward: ["KeyW", "ArrowUp"],
+  backward: ["KeyS", "ArrowDown"],
+  left: ["KeyA", "ArrowLeft"],
+  right: ["KeyD", "ArrowRight"],
+  up: ["KeyE", "Space"],
+  down: ["KeyQ", "KeyC"],
+  fast: ["ShiftLeft", "ShiftRight"],
+};
+
+export interface FlyControllerOptions {
+  speed?: number; // Units per second (default 5)
+  fastMultiplier?: number; // Default 3
+  lookSpeed?: number; // Degrees per pixel (default 0.15)
+  // Button held for mouse-look; null looks on every move (pointer lock)
+  lookButton?: PointerButton | null;
+  minPitch?: number; // Degrees, negative = down (default -89)
+  maxPitch?: number; // Default 89
+  damping?: number; // Smoothing time constant in seconds (default 0.1, 0 = none)
+  keys?: Partial<MovementKeys>;
+}
+
+// Movement directions in world space for the current view
+export interface MovementBasis {
+  forward: Vec3;
+  right: Vec3;
+  up: Vec3;
+}
+
+// FlyController class: free flight with WASD and mouse-look
+// Moves along the view direction (looking up and pressing W climbs);
+// up/down keys move along the world Y axis. Yaw turns around world Y and
+// pitch stays inside the limits, so the horizon never rolls
+export class FlyController implements CameraController {
+  protected _camera: Camera;
+  private _input: InputTracker;
+  private _options: Required<Omit<FlyControllerOptions, "keys">>;
+  private _keys: MovementKeys;
+
+  // Damped look angles follow the goals set by the pointer
+  private _yaw: number;
+  private _pitch: number; // Elevation: positive = looking up
+  private _goalYaw: number;
+  private _goalPitch: number;
+  private _velocity: Vec3;
+
+  constructor(
+    camera: Camera,
+    source: InputSource,
+    options: FlyControllerOptions = {}
+  ) {
+    this._camera = camera;
+    this._input = new InputTracker(source);
+    this._options = {
+      speed: options.speed ?? 5,
+      fastMultiplier: options.fastMultiplier ?? 3,
+      lookSpeed: options.lookSpeed ?? 0.15,
+      lookButton:
+        options.lookButton === undefined
+          ? PointerButton.PRIMARY
+          : options.lookButton,
+      minPitch: options.minPitch ?? -89,
+      maxPitch: options.maxPitch ?? 89,
+      damping: options.damping ?? 0.1,
+    };
+    this._keys = { ...DEFAULT_MOVEMENT_KEYS, ...options.keys };
+
+    // Start from the camera's current view direction
+    const forward = camera.getForward();
+    this._yaw = (Math.atan2(forward.x, forward.z) * 180) / Math.PI;
+    this._pitch = this.clampPitch(
+      (Math.asin(Math.max(-1, Math.min(1, forward.y))) * 180) / Math.PI
+    );
+    this._goalYaw = this._yaw;
+    this._goalPitch = this._pitch;
+    this._velocity = Vec3.zero();
+  }
+
+  public getVelocity(): Vec3 {
+    return this._velocity;
+  }
+
+  public update(deltaTime: number): void {
+    const input = this._input;
+    const options = this._options;
+    const pointer = input.consumePointerDelta();
+    input.consumeWheelDelta(); // Unused: don't let notches pile up
+
+    // Mouse-look: right turns right, down looks down
+    const look =
+      options.lookButton === null
+        ? pointer
+        : getDragDelta(pointer, options.lookButton);
+    this._goalYaw += look.x * options.lookSpeed;
+    this._goalPitch = this.clampPitch(
+      this._goalPitch - look.y * options.lookSpeed
+    );
+
+    const t = getDampingFactor(options.damping, deltaTime);
+    this._yaw += (this._goalYaw - this._yaw) * t;
+    this._pitch += (this._goalPitch - this._pitch) * t;
+    // Camera Euler pitch is positive looking down
+    this._camera.setRotation(-this._pitch, this._yaw, 0);
+
+    // Desired velocity from the held keys, eased into with the same damping
+    const keys = this._keys;
+    const axis = (positive: string[], negative: string[]) =>
+      (input.isAnyKeyDown(positive) ? 1 : 0) -
+      (input.isAnyKeyDown(negative) ? 1 : 0);
+    const basis = this.getMovementBasis();
+    const direction = basis.forward
+      .scale(axis(keys.forward, keys.backward))
+      .add(basis.right.scale(axis(keys.right, keys.left)))
+      .add(basis.up.scale(axis(keys.up, keys.down)));
+    const speed =
+      options.speed *
+      (input.isAnyKeyDown(keys.fast) ? options.fastMultiplier : 1);
+    const desiredVelocity = direction.normalize().scale(speed);
+
+    this._velocity = this._velocity.lerp(desiredVelocity, t);
+    const { x, y, z } = this._camera.position;
+    this._camera.setPosition(
+      x + this._velocity.x * deltaTime,
+      y + this._velocity.y * deltaTime,
+      z + this._velocity.z * deltaTime
+    );
+  }
+
+  public dispose(): void {
+    this._input.dispose();
+  }
+
+  // World-space directions for the movement keys
+  protected getMovementBasis(): MovementBasis {
+    return {
+      forward: this._camera.getForward(),
+      right: this._camera.getRight(),
+      up: new Vec3(0, 1, 0),
+    };
+  }
+
+  private clampPitch(pitch: number): number {
+    return Math.min(
+      this._options.maxPitch,
+      Math.max(this._options.minPitch, pitch)
+    );
+  }
+}
@@ -0,0 +1,398 @@
+import { Point2D } from "./Point2D";
+import { RenderTarget } from "./RenderTarget";
+import { RGBColor, parseColor } from "./color-utils";
+import { encodePNG } from "./png-encoder";
+import { clipLineToRect } from "./clipping-utils";
+import { GLYPH_WIDTH, GLYPH_HEIGHT, getGlyphRows } from "./bitmap-font";
+import { SCREEN_WIDTH, SCREEN_HEIGHT } from "./constants";
+
+export interface FrameBufferOptions {
+  antialias?: boolean; // Xiaolin Wu lines instead of Bresenham (default false)
+}
+
+// FrameBuffer class: pure TypeScript RGBA render target
+// Works without a DOM (Node, workers), e.g. for golden-image tests and thumbnails.
+// Pixel (x, y) covers [x, x + 1) × [y, y + 1), like a canvas; fills sample
+// pixel centers and lines are drawn through them
+export class FrameBuffer implements RenderTarget {
+  public readonly width: number;
+  public readonly height: number;
+  public antialias: boolean;
+  private _pixels: Uint8ClampedArray; // Row-major RGBA, 4 bytes per pixel
+
+  constructor(
+    width: number = SCREEN_WIDTH,
+    height: number = SCREEN_HEIGHT,
+    options: FrameBufferOptions = {}
+  ) {
+    if (
+      !Number.isInteger(width) ||
+      !Number.isInteger(height) ||
+      width <= 0 ||
+      height <= 0
+    ) {
+      throw new Error(`Invalid frame buffer size: ${width}x${height}`);
+    }
+
+    this.width = width;
+    this.height = height;
+    this.antialias = options.antialias ?? false;
+    this._pixels = new Uint8ClampedArray(width * height * 4);
+  }
+
+  // Raw RGBA data (row-major, 4 bytes per pixel)
+  public getPixels(): Uint8ClampedArray {
+    return this._pixels;
+  }
+
+  // Color of a pixel (black outside the buffer)
+  public getPixel(x: number, y: number): RGBColor {
+    if (!this.contains(x, y)) {
+      return { r: 0, g: 0, b: 0 };
+    }
+    const i = (y * this.width + x) * 4;
+    return {
+      r: this._pixels[i],
+      g: this._pixels[i + 1],
+      b: this._pixels[i + 2],
+    };
+  }
+
+  // Set a pixel (ignored outside the buffer)
+  public setPixel(x: number, y: number, color: RGBColor): void {
+    this.blendPixel(x, y, color, 1);
+  }
+
+  public clearScreen(color: string = "#000000"): void {
+    const { r, g, b } = parseColor(color);
+    for (let i = 0; i < this._pixels.length; i += 4) {
+      this._pixels[i] = r;
+      this._pixels[i + 1] = g;
+      this._pixels[i + 2] = b;
+      this._pixels[i + 3] = 255;
+    }
+  }
+
+  public drawLine(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: string = "#ffffff",
+    lineWidth: number = 2,
+    dash: number[] = []
+  ): void {
+    // A NaN or infinite endpoint (e.g. from a corrupt mesh) has no line to draw
+    if (![x1, y1, x2, y2].every(Number.isFinite)) {
+      return;
+    }
+
+    // Trim to the buffer (plus the brush size) so off-screen parts cost nothing
+    const margin = Math.ceil(lineWidth);
+    const clipped = clipLineToRect(
+      new Point2D(x1, y1),
+      new Point2D(x2, y2),
+      -margin,
+      -margin,
+      this.width + margin,
+      this.height + margin
+    );
+    if (!clipped) {
+      return;
+    }
+
+    const [start, end] = clipped;
+    const rgb = parseColor(color);
+    if (this.antialias) {
+      this.drawLineWu(start.x, start.y, end.x, end.y, rgb, lineWidth, dash);
+    } else {
+      this.drawLineBresenham(
+        start.x,
+        start.y,
+        end.x,
+        end.y,
+        rgb,
+        lineWidth,
+        dash
+      );
+    }
+  }
+
+  // Scanline fill with the even-odd rule, sampling pixel centers
+  public fillPolygon(points: Point2D[], color: string = "#ffffff"): void {
+    if (points.length < 3) {
+      return;
+    }
+
+    const rgb = parseColor(color);
+    const ys = points.map((p) => p.y);
+    const firstRow = Math.max(0, Math.ceil(Math.min(...ys) - 0.5));
+    const lastRow = Math.min(
+      this.height - 1,
+      Math.floor(Math.max(...ys) - 0.5)
+    );
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      const sampleY = row + 0.5;
+
+      // X coordinates where the polygon outline crosses this scanline
+      const crossings: number[] = [];
+      for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        if (a.y <= sampleY !== b.y <= sampleY) {
+          crossings.push(a.x + ((sampleY - a.y) / (b.y - a.y)) * (b.x - a.x));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const startX = Math.max(0, Math.ceil(crossings[i] - 0.5));
+        const endX = Math.min(this.width, Math.ceil(crossings[i + 1] - 0.5));
+        for (let x = startX; x < endX; x++) {
+          this.blendPixel(x, row, rgb, 1);
+        }
+      }
+    }
+  }
+
+  // Text in the built-in 5x7 bitmap font, scaled to whole pixels
+  public drawText(
+    text: string,
+    x: number,
+    y: number,
+    color: string = "#ffffff",
+    size: number = 14
+  ): void {
+    const rgb = parseColor(color);
+    const scale = Math.max(1, Math.round(size / GLYPH_HEIGHT));
+    const advance = (GLYPH_WIDTH + 1) * scale;
+    const left = Math.round(x);
+    const top = Math.round(y);
+
+    for (let c = 0; c < text.length; c++) {
+      const rows = getGlyphRows(text[c]);
+      const glyphLeft = left + c * advance;
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        for (let column = 0; column < GLYPH_WIDTH; column++) {
+          if (rows[row] & (1 << (GLYPH_WIDTH - 1 - column))) {
+            this.fillRect(
+              glyphLeft + column * scale,
+              top + row * scale,
+              scale,
+              scale,
+              rgb
+            );
+          }
+        }
+      }
+    }
+  }
+
+  // Encode the current contents as a PNG file
+  public toPNG(): Uint8Array {
+    return encodePNG(this.width, this.height, this._pixels);
+  }
+
+  // Bresenham line with a square brush of lineWidth pixels
+  private drawLineBresenham(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: RGBColor,
+    lineWidth: number,
+    dash: number[]
+  ): void {
+    let x = Math.floor(x1);
+    let y = Math.floor(y1);
+    const endX = Math.floor(x2);
+    const endY = Math.floor(y2);
+
+    const dx = Math.abs(endX - x);
+    const dy = -Math.abs(endY - y);
+    const stepX = x < endX ? 1 : -1;
+    const stepY = y < endY ? 1 : -1;
+    let error = dx + dy;
+
+    // Distance travelled per step along the major axis, for dash patterns
+    const steps = Math.max(dx, -dy);
+    const stepLength = steps > 0 ? Math.hypot(dx, dy) / steps : 0;
+
+    const brush = Math.max(1, Math.round(lineWidth));
+    const brushOffset = Math.floor((brush - 1) / 2);
+
+    // Bounded by steps + 1 pixels so the loop ends even if it misses the end
+    for (let step = 0; step <= steps; step++) {
+      if (isDashOn(step * stepLength, dash)) {
+        this.fillRect(x - brushOffset, y - brushOffset, brush, brush, color);
+      }
+      if (x === endX && y === endY) {
+        break;
+      }
+
+      const doubledError = 2 * error;
+      if (doubledError >= dy) {
+        error += dy;
+        x += stepX;
+      }
+      if (doubledError <= dx) {
+        error += dx;
+        y += stepY;
+      }
+    }
+  }
+
+  // Xiaolin Wu anti-aliased line; wider lines are drawn as parallel strokes
+  private drawLineWu(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: RGBColor,
+    lineWidth: number,
+    dash: number[]
+  ): void {
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    const normalX = length > 0 ? -(y2 - y1) / length : 0;
+    const normalY = length > 0 ? (x2 - x1) / length : 0;
+
+    const strokes = Math.max(1, Math.round(lineWidth));
+    for (let k = 0; k < strokes; k++) {
+      const offset = k - (strokes - 1) / 2;
+      this.drawWuStroke(
+        x1 + normalX * offset,
+        y1 + normalY * offset,
+        x2 + normalX * offset,
+        y2 + normalY * offset,
+        color,
+        dash
+      );
+    }
+  }
+
+  private drawWuStroke(
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    color: RGBColor,
+    dash: number[]
+  ): void {
+    // Shift so pixel centers land on integer coordinates
+    let x0 = startX - 0.5;
+    let y0 = startY - 0.5;
+    let x1 = endX - 0.5;
+    let y1 = endY - 0.5;
+
+    const steep = Math.abs(y1 - y0) > Math.abs(x1 - x0);
+    if (steep) {
+      [x0, y0] = [y0, x0];
+      [x1, y1] = [y1, x1];
+    }
+    if (x0 > x1) {
+      [x0, x1] = [x1, x0];
+      [y0, y1] = [y1, y0];
+    }
+
+    const dx = x1 - x0;
+    const gradient = dx === 0 ? 1 : (y1 - y0) / dx;
+    const stepLength = Math.sqrt(1 + gradient * gradient);
+
+    const firstX = Math.round(x0);
+    const plot = (major: number, minor: number, coverage: number) => {
+      if (!isDashOn((major - firstX) * stepLength, dash)) {
+        return;
+      }
+      if (steep) {
+        this.blendPixel(minor, major, color, coverage);
+      } else {
+        this.blendPixel(major, minor, color, coverage);
+      }
+    };
+
+    // First endpoint
+    const firstY = y0 + gradient * (firstX - x0);
+    const firstGap = 1 - fractionalPart(x0 + 0.5);
+    plot(firstX, Math.floor(firstY), (1 - fractionalPart(firstY)) * firstGap);
+    plot(firstX, Math.floor(firstY) + 1, fractionalPart(firstY) * firstGap);
+
+    // Second endpoint
+    const lastX = Math.round(x1);
+    const lastY = y1 + gradient * (lastX - x1);
+    const lastGap = fractionalPart(x1 + 0.5);
+    if (lastX !== firstX) {
+      plot(lastX, Math.floor(lastY), (1 - fractionalPart(lastY)) * lastGap);
+      plot(lastX, Math.floor(lastY) + 1, fractionalPart(lastY) * lastGap);
+    }
+
+    // Span between the endpoints
+    let intersectY = firstY + gradient;
+    for (let x = firstX + 1; x < lastX; x++) {
+      plot(x, Math.floor(intersectY), 1 - fractionalPart(intersectY));
+      plot(x, Math.floor(intersectY) + 1, fractionalPart(intersectY));
+      intersectY += gradient;
+    }
+  }
+
+  private fillRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: RGBColor
+  ): void {
+    for (let row = y; row < y + height; row++) {
+      for (let column = x; column < x + width; column++) {
+        this.blendPixel(column, row, color, 1);
+      }
+    }
+  }
+
+  // Mix a color into a pixel by coverage (0-1); the result is opaque
+  private blendPixel(
+    x: number,
+    y: number,
+    color: RGBColor,
+    coverage: number
+  ): void {
+    if (!this.contains(x, y) || coverage <= 0) {
+      return;
+    }
+
+    const i = (y * this.width + x) * 4;
+    const amount = Math.min(1, coverage);
+    const pixels = this._pixels;
+    pixels[i] = pixels[i] + (color.r - pixels[i]) * amount;
+    pixels[i + 1] = pixels[i + 1] + (color.g - pixels[i + 1]) * amount;
+    pixels[i + 2] = pixels[i + 2] + (color.b - pixels[i + 2]) * amount;
+    pixels[i + 3] = 255;
+  }
+
+  private contains(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height;
+  }
+}
+
+function fractionalPart(value: number): number {
+  return value - Math.floor(value);
+}
+
+// Whether a dash pattern is "on" at a distance along the line
+function isDashOn(distance: number, dash: number[]): boolean {
+  const period = dash.reduce((sum, length) => sum + length, 0);
+  if (dash.length === 0 || period <= 0) {
+    return true;
+  }
+
+  // Odd-length patterns repeat twice per period, like canvas setLineDash
+  const pattern = dash.length % 2 === 0 ? dash : [...dash, ...dash];
+  let position = distance % (pattern === dash ? period : period * 2);
+  for (let i = 0; i < pattern.length; i++) {
+    if (position < pattern[i]) {
+      return i % 2 === 0;
+    }
+    position -= pattern[i];
+  }
+  return true;
+}
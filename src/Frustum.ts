@@ -0,0 +1,106 @@
+import { Vec3 } from "./Vec3";
+import { Camera } from "./Camera";
+import { BoundingBox } from "./BoundingBox";
+
+// Result of testing a volume against the frustum
+export enum FrustumIntersection {
+  OUTSIDE = "OUTSIDE",
+  INTERSECTING = "INTERSECTING",
+  INSIDE = "INSIDE", // Entirely inside: nothing below it needs testing
+}
+
+// Plane as normal · p + d = 0, with the normal pointing into the frustum
+interface FrustumPlane {
+  normal: Vec3;
+  d: number;
+}
+
+// Frustum class: the camera's view volume as six world-space planes
+// Same planes as isObjectInFrustum (which works in camera space), so a
+// sphere gets the same answer from both. Working in world space lets
+// stored bounds be tested without transforming them per frame
+export class Frustum {
+  private _planes: FrustumPlane[];
+
+  private constructor(planes: FrustumPlane[]) {
+    this._planes = planes;
+  }
+
+  // Build from the camera's current position, orientation and projection
+  public static fromCamera(camera: Camera): Frustum {
+    // Camera-space planes: near, far, then right, left, top, bottom
+    const planes: FrustumPlane[] = [
+      { normal: new Vec3(0, 0, 1), d: -camera.near },
+      { normal: new Vec3(0, 0, -1), d: camera.far },
+    ];
+
+    if (camera.isOrthographic()) {
+      const { halfWidth, halfHeight } = camera.getOrthoHalfExtents();
+      planes.push(
+        { normal: new Vec3(-1, 0, 0), d: halfWidth },
+        { normal: new Vec3(1, 0, 0), d: halfWidth },
+        { normal: new Vec3(0, -1, 0), d: halfHeight },
+        { normal: new Vec3(0, 1, 0), d: halfHeight }
+      );
+    } else {
+      // The frustum spans |x| <= tanX * z and |y| <= tanY * z
+      const tanY = 1 / camera.getFocalLength();
+      const tanX = tanY * camera.aspect;
+      planes.push(
+        { normal: new Vec3(-1, 0, tanX).normalize(), d: 0 },
+        { normal: new Vec3(1, 0, tanX).normalize(), d: 0 },
+        { normal: new Vec3(0, -1, tanY).normalize(), d: 0 },
+        { normal: new Vec3(0, 1, tanY).normalize(), d: 0 }
+      );
+    }
+
+    // Camera space → world space: rotate the normal, shift d by the position
+    const orientation = camera.getOrientation();
+    const position = Vec3.from(camera.position);
+    return new Frustum(
+      planes.map((plane) => {
+        const normal = orientation.rotateVector(plane.normal);
+        return { normal, d: plane.d - normal.dot(position) };
+      })
+    );
+  }
+
+  public intersectsSphere(
+    center: { x: number; y: number; z: number },
+    radius: number
+  ): boolean {
+    for (const { normal, d } of this._planes) {
+      if (
+        normal.x * center.x + normal.y * center.y + normal.z * center.z + d <
+        -radius
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  public classifyBox(box: BoundingBox): FrustumIntersection {
+    let result = FrustumIntersection.INSIDE;
+    for (const { normal, d } of this._planes) {
+      // Corners farthest along and against the plane normal
+      const far =
+        normal.x * (normal.x > 0 ? box.max.x : box.min.x) +
+        normal.y * (normal.y > 0 ? box.max.y : box.min.y) +
+        normal.z * (normal.z > 0 ? box.max.z : box.min.z) +
+        d;
+      if (far < 0) {
+        return FrustumIntersection.OUTSIDE;
+      }
+      const near =
+        normal.x * (normal.x > 0 ? box.min.x : box.max.x) +
+        normal.y * (normal.y > 0 ? box.min.y : box.max.y) +
+        normal.z * (normal.z > 0 ? box.min.z : box.max.z) +
+        d;
+      if (near < 0) {
+        result = FrustumIntersection.INTERSECTING;
+      }
+    }
+    return result;
+  }
+}
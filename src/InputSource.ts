@@ -0,0 +1,26 @@
+// Pointer buttons reported by input sources
+export enum PointerButton {
+  PRIMARY = "PRIMARY", // Left mouse button, touch, pen
+  MIDDLE = "MIDDLE",
+  SECONDARY = "SECONDARY", // Right mouse button
+}
+
+// Device-independent input events consumed by camera controllers
+// Keys are physical key codes (KeyboardEvent.code: "KeyW", "Space", ...),
+// so WASD bindings work on any keyboard layout
+export type InputEvent =
+  | { type: "pointerdown"; button: PointerButton }
+  | { type: "pointerup"; button: PointerButton }
+  | { type: "pointermove"; dx: number; dy: number } // Pixels since the last move (y down)
+  | { type: "wheel"; delta: number } // Notches; positive = towards the user (zoom out)
+  | { type: "keydown"; key: string }
+  | { type: "keyup"; key: string }
+  | { type: "blur" }; // Focus lost: every key and button counts as released
+
+export type InputListener = (event: InputEvent) => void;
+
+// Source of input events (DOM, synthetic events in tests, replays, ...)
+export interface InputSource {
+  // Register a listener; returns a function that unregisters it
+  subscribe(listener: InputListener): () => void;
+}
@@ -0,0 +1,103 @@
+import { InputEvent, InputSource, PointerButton } from "./InputSource";
+
+// Pointer movement accumulated over a frame (pixels, y down)
+export interface PointerDelta {
+  x: number;
+  y: number;
+  // Movement made while each button was held. Recorded as the events arrive,
+  // so a press, move and release within one frame still counts as a drag
+  drag: Map<PointerButton, { x: number; y: number }>;
+}
+
+// Movement while a button was held, zero if it wasn't
+export function getDragDelta(
+  delta: PointerDelta,
+  button: PointerButton
+): { x: number; y: number } {
+  return delta.drag.get(button) ?? { x: 0, y: 0 };
+}
+
+// InputTracker class: turns an InputSource's event stream into state that
+// controllers poll once per frame (held keys and buttons, accumulated
+// pointer movement and wheel notches)
+export class InputTracker {
+  private _keys: Set<string>;
+  private _buttons: Set<PointerButton>;
+  private _pointerDelta: PointerDelta;
+  private _wheelDelta: number;
+  private _unsubscribe: () => void;
+
+  constructor(source: InputSource) {
+    this._keys = new Set();
+    this._buttons = new Set();
+    this._pointerDelta = { x: 0, y: 0, drag: new Map() };
+    this._wheelDelta = 0;
+    this._unsubscribe = source.subscribe((event) => this.handleEvent(event));
+  }
+
+  public isKeyDown(key: string): boolean {
+    return this._keys.has(key);
+  }
+
+  // True if any of the keys is held (for actions bound to several keys)
+  public isAnyKeyDown(keys: string[]): boolean {
+    return keys.some((key) => this._keys.has(key));
+  }
+
+  public isButtonDown(button: PointerButton): boolean {
+    return this._buttons.has(button);
+  }
+
+  // Pointer movement since the last call
+  public consumePointerDelta(): PointerDelta {
+    const delta = this._pointerDelta;
+    this._pointerDelta = { x: 0, y: 0, drag: new Map() };
+    return delta;
+  }
+
+  // Wheel notches since the last call
+  public consumeWheelDelta(): number {
+    const delta = this._wheelDelta;
+    this._wheelDelta = 0;
+    return delta;
+  }
+
+  // Stop listening to the source
+  public dispose(): void {
+    this._unsubscribe();
+  }
+
+  private handleEvent(event: InputEvent): void {
+    switch (event.type) {
+      case "keydown":
+        this._keys.add(event.key);
+        break;
+      case "keyup":
+        this._keys.delete(event.key);
+        break;
+      case "pointerdown":
+        this._buttons.add(event.button);
+        break;
+      case "pointerup":
+        this._buttons.delete(event.button);
+        break;
+      case "pointermove":
+        this._pointerDelta.x += event.dx;
+        this._pointerDelta.y += event.dy;
+        for (const button of this._buttons) {
+          const drag = this._pointerDelta.drag.get(button) ?? { x: 0, y: 0 };
+          drag.x += event.dx;
+          drag.y += event.dy;
+          this._pointerDelta.drag.set(button, drag);
+        }
+        break;
+      case "wheel":
+        this._wheelDelta += event.delta;
+        break;
+      case "blur":
+        this._keys.clear();
+        this._buttons.clear();
+        break;
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { Mesh3D } from "./Mesh3D";
+import { Camera } from "./Camera";
+import { SceneObject } from "./SceneObject";
+import { simplifyMesh } from "./mesh-utils";
+
+// How LODObject picks a level
+export enum LODMetric {
+  SCREEN_SIZE = "SCREEN_SIZE", // Projected bounding sphere diameter in pixels
+  DISTANCE = "DISTANCE", // Distance from the camera in world units
+}
+
+export interface LODLevel {
+  mesh: Mesh3D;
+  // SCREEN_SIZE: use this level while the object is at least this many
+  // pixels across. DISTANCE: use it while the object is at most this far.
+  // The first level that qualifies wins; the last level is the fallback
+  threshold: number;
+}
+
+export interface LODOptions {
+  metric?: LODMetric; // Default SCREEN_SIZE
+  // Fraction the metric must pass a threshold by before switching, so an
+  // object sitting on a boundary doesn't flicker (default 0.1)
+  hysteresis?: number;
+}
+
+// LODObject class: a SceneObject with several meshes of decreasing detail
+// drawWorld and drawSceneObject call selectLevel before drawing, which swaps
+// in the mesh for the current view. Levels are ordered from most to least
+// detailed. The metric uses the first level's bounding sphere, so switching
+// levels never changes which level is selected next
+export class LODObject extends SceneObject {
+  private _levels: LODLevel[];
+  private _levelIndex: number;
+  public metric: LODMetric;
+  public hysteresis: number;
+
+  constructor(
+    levels: LODLevel[],
+    options: LODOptions = {},
+    position = { x: 0, y: 0, z: 0 },
+    rotation = { x: 0, y: 0, z: 0 },
+    scale = { x: 1, y: 1, z: 1 }
+  ) {
+    if (levels.length === 0) {
+      throw new Error("LODObject needs at least one level");
+    }
+    super(levels[0].mesh, position, rotation, scale);
+    this._levels = levels;
+    this._levelIndex = 0;
+    this.metric = options.metric ?? LODMetric.SCREEN_SIZE;
+    this.hysteresis = options.hysteresis ?? 0.1;
+  }
+
+  // Levels generated from a full-detail mesh with simplifyMesh: level i > 0
+  // uses resolution / 2^(i-1) grid cells along the longest side, so each
+  // level has roughly a quarter of the previous level's polygons
+  public static fromMesh(
+    mesh: Mesh3D,
+    thresholds: number[],
+    resolution: number = 16,
+    options: LODOptions = {}
+  ): LODObject {
+    const levels = thresholds.map((threshold, i) => ({
+      mesh:
+        i === 0
+          ? mesh
+          : simplifyMesh(
+              mesh,
+              Math.max(1, Math.round(resolution / 2 ** (i - 1)))
+            ),
+      threshold,
+    }));
+    return new LODObject(levels, options);
+  }
+
+  public getLevels(): LODLevel[] {
+    return this._levels;
+  }
+
+  public getLevelIndex(): number {
+    return this._levelIndex;
+  }
+
+  // Switch levels directly (the next draw selects again, starting from here)
+  public setLevelIndex(index: number): void {
+    if (index < 0 || index >= this._levels.length) {
+      throw new Error(
+        `LOD level ${index} out of range (0-${this._levels.length - 1})`
+      );
+    }
+    this._levelIndex = index;
+    this.setMesh(this._levels[index].mesh);
+  }
+
+  // Screen size (pixels) or distance (world units) for the camera
+  public getMetricValue(camera: Camera): number {
+    const worldMatrix = this.getWorldMatrix();
+    const radius =
+      this._levels[0].mesh.getBoundingRadius() *
+      worldMatrix.getMaxScaleOnAxis();
+    const center = camera
+      .getViewMatrix()
+      .transformPoint(worldMatrix.getTranslation());
+
+    if (this.metric === LODMetric.DISTANCE) {
+      return Math.hypot(center.x, center.y, center.z);
+    }
+    if (camera.isOrthographic()) {
+      const { halfHeight } = camera.getOrthoHalfExtents();
+      return (radius / halfHeight) * camera.viewportHeight;
+    }
+    if (center.z <= 0) {
+      return Infinity; // Around or behind the eye: full detail
+    }
+    // Diameter 2r at depth z covers 2r·f/z of the NDC height of 2
+    return (
+      ((radius * camera.getFocalLength()) / center.z) * camera.viewportHeight
+    );
+  }
+
+  // Switch to the level for the camera; returns the selected index
+  public selectLevel(camera: Camera): number {
+    // Larger "detail" = finer level for both metrics
+    const value = this.getMetricValue(camera);
+    const toDetail = (v: number) =>
+      this.metric === LODMetric.DISTANCE ? 1 / v : v;
+    const detail = toDetail(value);
+    const levels = this._levels;
+    const last = levels.length - 1;
+    const qualifies = (index: number, factor: number) =>
+      index === last || detail >= toDetail(levels[index].threshold) * factor;
+
+    // Finer levels must be passed by the margin; the current level is only
+    // left for a coarser one once the metric falls short by the margin
+    const current = this._levelIndex;
+    let target = levels.findIndex(
+      (_, i) => i < current && qualifies(i, 1 + this.hysteresis)
+    );
+    if (target === -1) {
+      target = current;
+      while (!qualifies(target, 1 - this.hysteresis)) {
+        target++;
+      }
+    }
+
+    if (target !== current) {
+      this.setLevelIndex(target);
+    }
+    return target;
+  }
+}
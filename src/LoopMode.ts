@@ -0,0 +1,6 @@
+// Playback modes for animation tracks
+export enum LoopMode {
+  ONCE = "ONCE", // Play to the end and hold the last keyframe
+  LOOP = "LOOP", // Restart from the beginning
+  PING_PONG = "PING_PONG", // Alternate forwards and backwards
+}
@@ -0,0 +1,50 @@
+import { Clock, FrameCallback } from "./Clock";
+
+// ManualClock class: time that only moves when told to
+// Makes frame timing deterministic in tests and offline rendering:
+// each advance() is one frame of the given length
+export class ManualClock implements Clock {
+  private _time: number;
+  private _callbacks: Map<number, FrameCallback>;
+  private _nextHandle: number;
+
+  constructor(startTime: number = 0) {
+    this._time = startTime;
+    this._callbacks = new Map();
+    this._nextHandle = 1;
+  }
+
+  public now(): number {
+    return this._time;
+  }
+
+  public requestFrame(callback: FrameCallback): number {
+    const handle = this._nextHandle++;
+    this._callbacks.set(handle, callback);
+    return handle;
+  }
+
+  public cancelFrame(handle: number): void {
+    this._callbacks.delete(handle);
+  }
+
+  // Move time forward by milliseconds and run the callbacks requested so far
+  // (callbacks requested while running wait for the next advance)
+  public advance(milliseconds: number): void {
+    if (milliseconds < 0) {
+      throw new Error(`Cannot move a clock backwards (${milliseconds} ms)`);
+    }
+    this._time += milliseconds;
+
+    const callbacks = this._callbacks;
+    this._callbacks = new Map();
+    for (const callback of callbacks.values()) {
+      callback(this._time);
+    }
+  }
+
+  // Number of frame callbacks waiting for the next advance
+  public get pendingFrames(): number {
+    return this._callbacks.size;
+  }
+}
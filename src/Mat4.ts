@@ -0,0 +1,295 @@
+import { Point3D } from "./Point3D";
+import { Vec3 } from "./Vec3";
+import { Quaternion } from "./Quaternion";
+
+// Mat4 class: 4x4 matrix for affine and projective transforms
+// Stored column-major (elements[column * 4 + row]), applied to column vectors:
+//   p' = M · p, so Mat4.multiply(A, B) applies B first, then A
+export class Mat4 {
+  public readonly elements: Float64Array;
+
+  constructor(elements?: ArrayLike<number>) {
+    this.elements = new Float64Array(16);
+    if (elements) {
+      if (elements.length !== 16) {
+        throw new Error(
+          `Invalid matrix: expected 16 elements, got ${elements.length}`
+        );
+      }
+      this.elements.set(elements);
+    } else {
+      this.elements[0] = 1;
+      this.elements[5] = 1;
+      this.elements[10] = 1;
+      this.elements[15] = 1;
+    }
+  }
+
+  public static identity(): Mat4 {
+    return new Mat4();
+  }
+
+  // Element accessor by row and column
+  public get(row: number, column: number): number {
+    return this.elements[column * 4 + row];
+  }
+
+  // Matrix product a · b (b is applied first)
+  public static multiply(a: Mat4, b: Mat4): Mat4 {
+    const ae = a.elements;
+    const be = b.elements;
+    const result = new Mat4();
+    const re = result.elements;
+
+    for (let column = 0; column < 4; column++) {
+      for (let row = 0; row < 4; row++) {
+        re[column * 4 + row] =
+          ae[row] * be[column * 4] +
+          ae[4 + row] * be[column * 4 + 1] +
+          ae[8 + row] * be[column * 4 + 2] +
+          ae[12 + row] * be[column * 4 + 3];
+      }
+    }
+
+    return result;
+  }
+
+  public multiply(m: Mat4): Mat4 {
+    return Mat4.multiply(this, m);
+  }
+
+  public static translation(x: number, y: number, z: number): Mat4 {
+    const m = new Mat4();
+    m.elements[12] = x;
+    m.elements[13] = y;
+    m.elements[14] = z;
+    return m;
+  }
+
+  public static scaling(x: number, y: number, z: number): Mat4 {
+    const m = new Mat4();
+    m.elements[0] = x;
+    m.elements[5] = y;
+    m.elements[10] = z;
+    return m;
+  }
+
+  // Rotation about the X axis (degrees, right-handed)
+  public static rotationX(angleInDegrees: number): Mat4 {
+    return Mat4.fromQuaternion(
+      Quaternion.fromAxisAngle(new Vec3(1, 0, 0), angleInDegrees)
+    );
+  }
+
+  // Rotation about the Y axis (degrees, right-handed)
+  public static rotationY(angleInDegrees: number): Mat4 {
+    return Mat4.fromQuaternion(
+      Quaternion.fromAxisAngle(new Vec3(0, 1, 0), angleInDegrees)
+    );
+  }
+
+  // Rotation about the Z axis (degrees, right-handed)
+  public static rotationZ(angleInDegrees: number): Mat4 {
+    return Mat4.fromQuaternion(
+      Quaternion.fromAxisAngle(new Vec3(0, 0, 1), angleInDegrees)
+    );
+  }
+
+  // Rotation matrix from a unit quaternion
+  public static fromQuaternion(q: Quaternion): Mat4 {
+    return Mat4.compose(Vec3.zero(), q, new Vec3(1, 1, 1));
+  }
+
+  // Translation · Rotation · Scale in one step (scale first, translate last)
+  public static compose(
+    position: { x: number; y: number; z: number },
+    rotation: Quaternion,
+    scale: { x: number; y: number; z: number }
+  ): Mat4 {
+    const { x, y, z, w } = rotation;
+    const x2 = x + x;
+    const y2 = y + y;
+    const z2 = z + z;
+    const xx = x * x2;
+    const xy = x * y2;
+    const xz = x * z2;
+    const yy = y * y2;
+    const yz = y * z2;
+    const zz = z * z2;
+    const wx = w * x2;
+    const wy = w * y2;
+    const wz = w * z2;
+
+    const m = new Mat4();
+    const e = m.elements;
+
+    e[0] = (1 - (yy + zz)) * scale.x;
+    e[1] = (xy + wz) * scale.x;
+    e[2] = (xz - wy) * scale.x;
+    e[3] = 0;
+
+    e[4] = (xy - wz) * scale.y;
+    e[5] = (1 - (xx + zz)) * scale.y;
+    e[6] = (yz + wx) * scale.y;
+    e[7] = 0;
+
+    e[8] = (xz + wy) * scale.z;
+    e[9] = (yz - wx) * scale.z;
+    e[10] = (1 - (xx + yy)) * scale.z;
+    e[11] = 0;
+
+    e[12] = position.x;
+    e[13] = position.y;
+    e[14] = position.z;
+    e[15] = 1;
+
+    return m;
+  }
+
+  // Perspective projection: camera space → clip space
+  // clip = (x · focal / aspect, y · focal, z, z), so dividing by w gives NDC X/Y
+  // Z is passed through unchanged: the pipeline keeps view depth for sorting
+  public static perspective(focalLength: number, aspect: number): Mat4 {
+    const m = new Mat4();
+    const e = m.elements;
+    e[0] = focalLength / aspect;
+    e[5] = focalLength;
+    e[10] = 1;
+    e[11] = 1; // w = z
+    e[15] = 0;
+    return m;
+  }
+
+  // Orthographic projection: camera space → clip space (w stays 1)
+  public static orthographic(halfWidth: number, halfHeight: number): Mat4 {
+    return Mat4.scaling(1 / halfWidth, 1 / halfHeight, 1);
+  }
+
+  public determinant(): number {
+    const e = this.elements;
+    const [a00, a01, a02, a03] = [e[0], e[1], e[2], e[3]];
+    const [a10, a11, a12, a13] = [e[4], e[5], e[6], e[7]];
+    const [a20, a21, a22, a23] = [e[8], e[9], e[10], e[11]];
+    const [a30, a31, a32, a33] = [e[12], e[13], e[14], e[15]];
+
+    const b00 = a00 * a11 - a01 * a10;
+    const b01 = a00 * a12 - a02 * a10;
+    const b02 = a00 * a13 - a03 * a10;
+    const b03 = a01 * a12 - a02 * a11;
+    const b04 = a01 * a13 - a03 * a11;
+    const b05 = a02 * a13 - a03 * a12;
+    const b06 = a20 * a31 - a21 * a30;
+    const b07 = a20 * a32 - a22 * a30;
+    const b08 = a20 * a33 - a23 * a30;
+    const b09 = a21 * a32 - a22 * a31;
+    const b10 = a21 * a33 - a23 * a31;
+    const b11 = a22 * a33 - a23 * a32;
+
+    return (
+      b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06
+    );
+  }
+
+  // General inverse (cofactor expansion); throws for singular matrices
+  public invert(): Mat4 {
+    const e = this.elements;
+    const [a00, a01, a02, a03] = [e[0], e[1], e[2], e[3]];
+    const [a10, a11, a12, a13] = [e[4], e[5], e[6], e[7]];
+    const [a20, a21, a22, a23] = [e[8], e[9], e[10], e[11]];
+    const [a30, a31, a32, a33] = [e[12], e[13], e[14], e[15]];
+
+    const b00 = a00 * a11 - a01 * a10;
+    const b01 = a00 * a12 - a02 * a10;
+    const b02 = a00 * a13 - a03 * a10;
+    const b03 = a01 * a12 - a02 * a11;
+    const b04 = a01 * a13 - a03 * a11;
+    const b05 = a02 * a13 - a03 * a12;
+    const b06 = a20 * a31 - a21 * a30;
+    const b07 = a20 * a32 - a22 * a30;
+    const b08 = a20 * a33 - a23 * a30;
+    const b09 = a21 * a32 - a22 * a31;
+    const b10 = a21 * a33 - a23 * a31;
+    const b11 = a22 * a33 - a23 * a32;
+
+    const det =
+      b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+    if (Math.abs(det) < 1e-12) {
+      throw new Error("Matrix is not invertible (determinant is zero)");
+    }
+    const invDet = 1 / det;
+
+    return new Mat4([
+      (a11 * b11 - a12 * b10 + a13 * b09) * invDet,
+      (a02 * b10 - a01 * b11 - a03 * b09) * invDet,
+      (a31 * b05 - a32 * b04 + a33 * b03) * invDet,
+      (a22 * b04 - a21 * b05 - a23 * b03) * invDet,
+      (a12 * b08 - a10 * b11 - a13 * b07) * invDet,
+      (a00 * b11 - a02 * b08 + a03 * b07) * invDet,
+      (a32 * b02 - a30 * b05 - a33 * b01) * invDet,
+      (a20 * b05 - a22 * b02 + a23 * b01) * invDet,
+      (a10 * b10 - a11 * b08 + a13 * b06) * invDet,
+      (a01 * b08 - a00 * b10 - a03 * b06) * invDet,
+      (a30 * b04 - a31 * b02 + a33 * b00) * invDet,
+      (a21 * b02 - a20 * b04 - a23 * b00) * invDet,
+      (a11 * b07 - a10 * b09 - a12 * b06) * invDet,
+      (a00 * b09 - a01 * b07 + a02 * b06) * invDet,
+      (a31 * b01 - a30 * b03 - a32 * b00) * invDet,
+      (a20 * b03 - a21 * b01 + a22 * b00) * invDet,
+    ]);
+  }
+
+  // Transform a point (w = 1); divides by the resulting w when it isn't 1
+  public transformPoint(p: { x: number; y: number; z: number }): Point3D {
+    const e = this.elements;
+    const x = e[0] * p.x + e[4] * p.y + e[8] * p.z + e[12];
+    const y = e[1] * p.x + e[5] * p.y + e[9] * p.z + e[13];
+    const z = e[2] * p.x + e[6] * p.y + e[10] * p.z + e[14];
+    const w = e[3] * p.x + e[7] * p.y + e[11] * p.z + e[15];
+
+    if (w === 1 || w === 0) {
+      return new Point3D(x, y, z);
+    }
+    return new Point3D(x / w, y / w, z / w);
+  }
+
+  // Transform a point to homogeneous coordinates without dividing by w
+  public transformPoint4(p: { x: number; y: number; z: number }): {
+    x: number;
+    y: number;
+    z: number;
+    w: number;
+  } {
+    const e = this.elements;
+    return {
+      x: e[0] * p.x + e[4] * p.y + e[8] * p.z + e[12],
+      y: e[1] * p.x + e[5] * p.y + e[9] * p.z + e[13],
+      z: e[2] * p.x + e[6] * p.y + e[10] * p.z + e[14],
+      w: e[3] * p.x + e[7] * p.y + e[11] * p.z + e[15],
+    };
+  }
+
+  // Transform a direction (w = 0: translation is ignored)
+  public transformDirection(v: { x: number; y: number; z: number }): Vec3 {
+    const e = this.elements;
+    return new Vec3(
+      e[0] * v.x + e[4] * v.y + e[8] * v.z,
+      e[1] * v.x + e[5] * v.y + e[9] * v.z,
+      e[2] * v.x + e[6] * v.y + e[10] * v.z
+    );
+  }
+
+  // Translation part of an affine matrix
+  public getTranslation(): Vec3 {
+    return new Vec3(this.elements[12], this.elements[13], this.elements[14]);
+  }
+
+  // Largest axis scale factor (length of the longest basis column)
+  // Used for conservative bounding sphere radii
+  public getMaxScaleOnAxis(): number {
+    const e = this.elements;
+    const sx = e[0] * e[0] + e[1] * e[1] + e[2] * e[2];
+    const sy = e[4] * e[4] + e[5] * e[5] + e[6] * e[6];
+    const sz = e[8] * e[8] + e[9] * e[9] + e[10] * e[10];
+    return Math.sqrt(Math.max(sx, sy, sz));
+  }
+}
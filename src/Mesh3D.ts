@@ -1,17 +1,26 @@
 import { Polygon3D } from './Polygon3D';
+import { Polyline3D } from './Polyline3D';
 import { Point3D } from './Point3D';
+import { MeshEdge } from './MeshEdge';
+import { Vec3 } from './Vec3';
 
 // Mesh3D class containing vertices (positions) and polygons (with vertex indices)
 // This is pure geometry data that can be instanced multiple times
 export class Mesh3D {
     private _vertices: Point3D[];
     private _polygons: Polygon3D[];
+    private _polylines: Polyline3D[]; // Open line chains (curves, paths), drawn but never filled
     private _boundingRadius: number; // Pre-calculated bounding sphere radius
+    private _edges: MeshEdge[] | null; // Unique edge list, built on first use
+    private _faceNormals: Vec3[] | null; // Unit polygon normals, built on first use
 
-    constructor(vertices: Point3D[], polygons: Polygon3D[]) {
+    constructor(vertices: Point3D[], polygons: Polygon3D[], polylines: Polyline3D[] = []) {
         this._vertices = vertices;
         this._polygons = polygons;
+        this._polylines = polylines;
         this._boundingRadius = this.calculateBoundingRadius();
+        this._edges = null;
+        this._faceNormals = null;
     }
 
     // Calculate bounding sphere radius (max distance from origin to any vertex)
@@ -42,6 +51,7 @@ export class Mesh3D {
     public setVertices(vertices: Point3D[]): void {
         this._vertices = vertices;
         this._boundingRadius = this.calculateBoundingRadius();
+        this.invalidateEdges();
     }
 
     // Getter for polygons
@@ -49,9 +59,98 @@ export class Mesh3D {
         return this._polygons;
     }
 
-    // Setter for polygons
+    // Setter for polygons (edge list is rebuilt on next use)
     public setPolygons(polygons: Polygon3D[]): void {
         this._polygons = polygons;
+        this.invalidateEdges();
+    }
+
+    // Getter for polylines
+    public getPolylines(): Polyline3D[] {
+        return this._polylines;
+    }
+
+    // Setter for polylines (they don't take part in edges or face normals)
+    public setPolylines(polylines: Polyline3D[]): void {
+        this._polylines = polylines;
+    }
+
+    // Unique edges of all polygons, each listing the polygons that share it
+    // Built once and cached: a closed triangle mesh has ~half as many edges as polygon sides
+    public getEdges(): MeshEdge[] {
+        if (this._edges === null) {
+            this._edges = this.buildEdges();
+        }
+        return this._edges;
+    }
+
+    // Drop the cached edge list and normals (call after editing polygon vertex indices in place)
+    public invalidateEdges(): void {
+        this._edges = null;
+        this._faceNormals = null;
+    }
+
+    // Unit face normal of every polygon in model space (zero vector for degenerate polygons)
+    public getFaceNormals(): Vec3[] {
+        if (this._faceNormals === null) {
+            this._faceNormals = this._polygons.map((polygon) =>
+                polygon.computeNormal(this._vertices).normalize()
+            );
+        }
+        return this._faceNormals;
+    }
+
+    // Mesh analysis: the largest angle between adjacent face normals of an edge
+    private calculateDihedralAngle(edge: MeshEdge): number {
+        const normals = this.getFaceNormals();
+        const [first, ...others] = edge.polygonIndices;
+        let maxAngle = 0;
+
+        for (const other of others) {
+            const cos = normals[first].dot(normals[other]);
+            const angle = (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+            maxAngle = Math.max(maxAngle, angle);
+        }
+
+        return maxAngle;
+    }
+
+    // Walk every polygon side (closing each loop) and merge sides with the same endpoints
+    private buildEdges(): MeshEdge[] {
+        const edges: MeshEdge[] = [];
+        const edgeLookup = new Map<string, MeshEdge>();
+
+        this._polygons.forEach((polygon, polygonIndex) => {
+            const indices = polygon.getVertexIndices();
+            const n = indices.length;
+
+            for (let i = 0; i < n; i++) {
+                const a = indices[i];
+                const b = indices[(i + 1) % n];
+                if (a === b) {
+                    continue; // Degenerate side
+                }
+
+                const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+                let edge = edgeLookup.get(key);
+                if (!edge) {
+                    edge = new MeshEdge(a, b);
+                    edgeLookup.set(key, edge);
+                    edges.push(edge);
+                }
+
+                // A polygon touching the same edge twice is only listed once
+                if (edge.polygonIndices[edge.polygonIndices.length - 1] !== polygonIndex) {
+                    edge.polygonIndices.push(polygonIndex);
+                }
+            }
+        });
+
+        for (const edge of edges) {
+            edge.dihedralAngle = this.calculateDihedralAngle(edge);
+        }
+
+        return edges;
     }
 
     // For backward compatibility
@@ -0,0 +1,48 @@
+import { Polygon3D } from "./Polygon3D";
+
+// Edges whose adjacent faces bend by at most this many degrees count as
+// coplanar (internal), e.g. the diagonal of a triangulated quad
+export const DEFAULT_COPLANAR_TOLERANCE = 1;
+
+// MeshEdge class: a unique edge between two vertices of a Mesh3D
+// Shared by every polygon that has a side between the same two vertices
+export class MeshEdge {
+  public readonly a: number; // Lower vertex index
+  public readonly b: number; // Higher vertex index
+  public readonly polygonIndices: number[]; // Adjacent polygons, in mesh order
+
+  // Largest angle in degrees between the normals of adjacent polygons
+  // (0 = flat, 90 = cube edge); 0 for boundary edges. Set by Mesh3D analysis
+  public dihedralAngle: number;
+
+  constructor(a: number, b: number, polygonIndices: number[] = []) {
+    this.a = Math.min(a, b);
+    this.b = Math.max(a, b);
+    this.polygonIndices = polygonIndices;
+    this.dihedralAngle = 0;
+  }
+
+  // Edge used by a single polygon (open border of the mesh)
+  public isBoundary(): boolean {
+    return this.polygonIndices.length === 1;
+  }
+
+  // Edge between coplanar (or nearly coplanar) polygons, e.g. a triangulation diagonal
+  public isInternal(
+    toleranceDegrees: number = DEFAULT_COPLANAR_TOLERANCE
+  ): boolean {
+    return !this.isBoundary() && this.dihedralAngle <= toleranceDegrees;
+  }
+
+  // Edge where the surface folds by more than the given angle
+  public isCrease(creaseAngleDegrees: number): boolean {
+    return !this.isBoundary() && this.dihedralAngle > creaseAngleDegrees;
+  }
+
+  // Color used when the edge is drawn once for all adjacent polygons
+  // Rule: the last adjacent polygon in mesh order wins, which matches what
+  // stroking every polygon separately used to leave on top
+  public getColor(polygons: Polygon3D[]): string {
+    return polygons[this.polygonIndices[this.polygonIndices.length - 1]].color;
+  }
+}
@@ -0,0 +1,275 @@
+import { Point2D } from "./Point2D";
+
+// Screen-space triangle with the camera-space depth of each corner
+interface OccluderTriangle {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  // Interpolated attribute per corner: 1/z in perspective (screen-linear), z in orthographic
+  d0: number;
+  d1: number;
+  d2: number;
+  area: number; // Signed doubled area, cached for barycentric coordinates
+  polygonId: number;
+}
+
+// Size of the square screen tiles triangles are binned into
+const TILE_SIZE = 32;
+
+// OcclusionBuffer class: analytic visibility queries against projected polygons
+// Used for hidden-line removal: instead of rasterizing a depth buffer, each
+// query point is tested against the (few) triangles overlapping its tile
+export class OcclusionBuffer {
+  private _width: number;
+  private _height: number;
+  private _perspective: boolean;
+  private _depthEpsilon: number;
+  private _columns: number;
+  private _rows: number;
+  private _tiles: OccluderTriangle[][];
+
+  // depthEpsilon is relative: surfaces closer than depth * (1 - epsilon) occlude
+  constructor(
+    width: number,
+    height: number,
+    perspective: boolean,
+    depthEpsilon: number = 1e-3
+  ) {
+    this._width = width;
+    this._height = height;
+    this._perspective = perspective;
+    this._depthEpsilon = depthEpsilon;
+    this._columns = Math.max(1, Math.ceil(width / TILE_SIZE));
+    this._rows = Math.max(1, Math.ceil(height / TILE_SIZE));
+    this._tiles = Array.from({ length: this._columns * this._rows }, () => []);
+  }
+
+  // Add a screen-space polygon, convex or concave (ear-clipped)
+  // depths are the camera-space Z of each point; they must all be positive in perspective
+  public addPolygon(
+    screenPoints: Point2D[],
+    depths: number[],
+    polygonId: number
+  ): void {
+    for (const [a, b, c] of triangulate(screenPoints)) {
+      this.addTriangle(
+        screenPoints[a],
+        screenPoints[b],
+        screenPoints[c],
+        depths[a],
+        depths[b],
+        depths[c],
+        polygonId
+      );
+    }
+  }
+
+  // True when a surface lies in front of the given screen point at the given depth
+  // Polygons for which ignore(polygonId) is true are skipped (e.g. the faces
+  // adjacent to the edge being tested, which would otherwise hide it)
+  public isOccluded(
+    x: number,
+    y: number,
+    depth: number,
+    ignore: (polygonId: number) => boolean = () => false
+  ): boolean {
+    if (x < 0 || y < 0 || x >= this._width || y >= this._height) {
+      return false;
+    }
+
+    const column = Math.floor(x / TILE_SIZE);
+    const row = Math.floor(y / TILE_SIZE);
+    const limit = depth * (1 - this._depthEpsilon);
+
+    for (const triangle of this._tiles[row * this._columns + column]) {
+      if (ignore(triangle.polygonId)) {
+        continue;
+      }
+
+      const surfaceDepth = this.depthAt(triangle, x, y);
+      if (surfaceDepth !== null && surfaceDepth < limit) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // Remove all triangles
+  public clear(): void {
+    for (const tile of this._tiles) {
+      tile.length = 0;
+    }
+  }
+
+  private addTriangle(
+    a: Point2D,
+    b: Point2D,
+    c: Point2D,
+    depthA: number,
+    depthB: number,
+    depthC: number,
+    polygonId: number
+  ): void {
+    const area = (b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y);
+    if (Math.abs(area) < 1e-9) {
+      return; // Edge-on polygon: covers no pixels
+    }
+
+    const attribute = (depth: number) =>
+      this._perspective ? 1 / depth : depth;
+    const triangle: OccluderTriangle = {
+      x0: a.x,
+      y0: a.y,
+      x1: b.x,
+      y1: b.y,
+      x2: c.x,
+      y2: c.y,
+      d0: attribute(depthA),
+      d1: attribute(depthB),
+      d2: attribute(depthC),
+      area,
+      polygonId,
+    };
+
+    const minX = Math.min(a.x, b.x, c.x);
+    const maxX = Math.max(a.x, b.x, c.x);
+    const minY = Math.min(a.y, b.y, c.y);
+    const maxY = Math.max(a.y, b.y, c.y);
+    if (maxX < 0 || maxY < 0 || minX >= this._width || minY >= this._height) {
+      return; // Entirely off-screen
+    }
+
+    // Bin into every tile overlapped by the bounding box
+    const minColumn = this.tileIndex(minX, this._columns);
+    const maxColumn = this.tileIndex(maxX, this._columns);
+    const minRow = this.tileIndex(minY, this._rows);
+    const maxRow = this.tileIndex(maxY, this._rows);
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let column = minColumn; column <= maxColumn; column++) {
+        this._tiles[row * this._columns + column].push(triangle);
+      }
+    }
+  }
+
+  // Camera-space depth of a triangle at a screen point, or null outside it
+  private depthAt(
+    triangle: OccluderTriangle,
+    x: number,
+    y: number
+  ): number | null {
+    const { x0, y0, x1, y1, x2, y2, area } = triangle;
+    const w0 = ((x1 - x) * (y2 - y) - (x2 - x) * (y1 - y)) / area;
+    const w1 = ((x2 - x) * (y0 - y) - (x0 - x) * (y2 - y)) / area;
+    const w2 = 1 - w0 - w1;
+    if (w0 < 0 || w1 < 0 || w2 < 0) {
+      return null;
+    }
+
+    const value = w0 * triangle.d0 + w1 * triangle.d1 + w2 * triangle.d2;
+    return this._perspective ? 1 / value : value;
+  }
+
+  // Tile row/column containing a coordinate, clamped to the grid
+  private tileIndex(value: number, count: number): number {
+    return Math.min(count - 1, Math.max(0, Math.floor(value / TILE_SIZE)));
+  }
+}
+
+// Ear clipping: split a simple polygon into triangles (as point indices) that
+// cover exactly its area, concave corners included. What's left when no ear
+// is found (a self-intersecting outline, e.g. a warped face seen edge-on) is
+// fan-split as a best effort
+function triangulate(points: Point2D[]): [number, number, number][] {
+  const triangles: [number, number, number][] = [];
+  const remaining = points.map((_, index) => index);
+  // Winding of the whole outline, so convex corners are recognized either way round
+  const winding = Math.sign(signedArea(points));
+
+  while (remaining.length > 3) {
+    const count = remaining.length;
+    const ear = remaining.findIndex((_, i) =>
+      isEar(
+        points,
+        remaining,
+        remaining[(i + count - 1) % count],
+        remaining[i],
+        remaining[(i + 1) % count],
+        winding
+      )
+    );
+    if (ear === -1) {
+      break;
+    }
+    triangles.push([
+      remaining[(ear + count - 1) % count],
+      remaining[ear],
+      remaining[(ear + 1) % count],
+    ]);
+    remaining.splice(ear, 1);
+  }
+
+  for (let i = 1; i < remaining.length - 1; i++) {
+    triangles.push([remaining[0], remaining[i], remaining[i + 1]]);
+  }
+  return triangles;
+}
+
+// A convex corner whose triangle contains no other remaining point
+function isEar(
+  points: Point2D[],
+  remaining: number[],
+  previous: number,
+  current: number,
+  next: number,
+  winding: number
+): boolean {
+  const a = points[previous];
+  const b = points[current];
+  const c = points[next];
+  if (cross(a, b, c) * winding <= 0) {
+    return false; // Reflex or collinear corner
+  }
+  return remaining.every(
+    (index) =>
+      index === previous ||
+      index === current ||
+      index === next ||
+      !isInTriangle(points[index], a, b, c, winding)
+  );
+}
+
+// Inside or on the border of triangle abc (wound in the given direction)
+function isInTriangle(
+  p: Point2D,
+  a: Point2D,
+  b: Point2D,
+  c: Point2D,
+  winding: number
+): boolean {
+  return (
+    cross(a, b, p) * winding >= 0 &&
+    cross(b, c, p) * winding >= 0 &&
+    cross(c, a, p) * winding >= 0
+  );
+}
+
+// Z of (b - a) x (c - b): positive for a counter-clockwise turn at b
+function cross(a: Point2D, b: Point2D, c: Point2D): number {
+  return (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+}
+
+// Shoelace formula (doubled, positive for counter-clockwise outlines)
+function signedArea(points: Point2D[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    area += current.x * next.y - next.x * current.y;
+  }
+  return area;
+}
@@ -0,0 +1,167 @@
+import { Camera } from "./Camera";
+import { Vec3 } from "./Vec3";
+import { InputSource, PointerButton } from "./InputSource";
+import { InputTracker, getDragDelta } from "./InputTracker";
+import { CameraController, getDampingFactor } from "./CameraController";
+
+export interface OrbitControllerOptions {
+  target?: { x: number; y: number; z: number }; // Orbit center (default origin)
+  rotateSpeed?: number; // Degrees per pixel dragged (default 0.3)
+  zoomSpeed?: number; // Distance factor per wheel notch is e^zoomSpeed (default 0.1)
+  panSpeed?: number; // 1 = the target follows the pointer exactly (default 1)
+  minDistance?: number; // Default 0.1
+  maxDistance?: number; // Default Infinity
+  minPitch?: number; // Lowest elevation in degrees (default -89)
+  maxPitch?: number; // Highest elevation in degrees (default 89)
+  damping?: number; // Smoothing time constant in seconds (default 0.1, 0 = none)
+}
+
+// OrbitController class: turntable orbit around a target point
+//   drag (primary button)              rotate around the target
+//   drag (secondary/middle, or Shift)  pan the target in the view plane
+//   wheel                              zoom (distance to the target)
+// The starting yaw, pitch and distance come from the camera's position.
+// Pitch stays inside the limits so the view never flips over the pole.
+// Orthographic cameras get an ortho size matching the perspective view at
+// the target, so zooming works in both projections
+export class OrbitController implements CameraController {
+  private _camera: Camera;
+  private _input: InputTracker;
+  private _options: Required<Omit<OrbitControllerOptions, "target">>;
+
+  // Damped state follows the goal state set by input
+  private _yaw: number;
+  private _pitch: number;
+  private _distance: number;
+  private _target: Vec3;
+  private _goalYaw: number;
+  private _goalPitch: number;
+  private _goalDistance: number;
+  private _goalTarget: Vec3;
+
+  constructor(
+    camera: Camera,
+    source: InputSource,
+    options: OrbitControllerOptions = {}
+  ) {
+    this._camera = camera;
+    this._input = new InputTracker(source);
+    this._options = {
+      rotateSpeed: options.rotateSpeed ?? 0.3,
+      zoomSpeed: options.zoomSpeed ?? 0.1,
+      panSpeed: options.panSpeed ?? 1,
+      minDistance: options.minDistance ?? 0.1,
+      maxDistance: options.maxDistance ?? Infinity,
+      minPitch: options.minPitch ?? -89,
+      maxPitch: options.maxPitch ?? 89,
+      damping: options.damping ?? 0.1,
+    };
+
+    // Same angles as Camera.orbit: yaw 0 places the camera on +Z
+    this._target = Vec3.from(options.target ?? { x: 0, y: 0, z: 0 });
+    const offset = Vec3.from(camera.position).subtract(this._target);
+    this._distance = this.clampDistance(offset.length());
+    this._yaw = (Math.atan2(offset.x, offset.z) * 180) / Math.PI;
+    this._pitch = this.clampPitch(
+      offset.length() > 0
+        ? (Math.asin(offset.y / offset.length()) * 180) / Math.PI
+        : 0
+    );
+
+    this._goalYaw = this._yaw;
+    this._goalPitch = this._pitch;
+    this._goalDistance = this._distance;
+    this._goalTarget = this._target;
+  }
+
+  public getTarget(): Vec3 {
+    return this._goalTarget;
+  }
+
+  // Move the orbit center (the camera glides there with damping)
+  public setTarget(target: { x: number; y: number; z: number }): void {
+    this._goalTarget = Vec3.from(target);
+  }
+
+  public getDistance(): number {
+    return this._goalDistance;
+  }
+
+  public setDistance(distance: number): void {
+    this._goalDistance = this.clampDistance(distance);
+  }
+
+  public update(deltaTime: number): void {
+    const input = this._input;
+    const options = this._options;
+    const pointer = input.consumePointerDelta();
+    const wheel = input.consumeWheelDelta();
+
+    const primary = getDragDelta(pointer, PointerButton.PRIMARY);
+    const secondary = getDragDelta(pointer, PointerButton.SECONDARY);
+    const middle = getDragDelta(pointer, PointerButton.MIDDLE);
+    const shift = input.isAnyKeyDown(["ShiftLeft", "ShiftRight"]);
+    const rotate = shift ? { x: 0, y: 0 } : primary;
+    const pan = {
+      x: secondary.x + middle.x + (shift ? primary.x : 0),
+      y: secondary.y + middle.y + (shift ? primary.y : 0),
+    };
+
+    this._goalYaw += rotate.x * options.rotateSpeed;
+    this._goalPitch = this.clampPitch(
+      this._goalPitch + rotate.y * options.rotateSpeed
+    );
+
+    // The scene follows the pointer: move the target the other way
+    const scale = this.getWorldUnitsPerPixel() * options.panSpeed;
+    this._goalTarget = this._goalTarget
+      .add(this._camera.getRight().scale(-pan.x * scale))
+      .add(this._camera.getUp().scale(pan.y * scale));
+
+    if (wheel !== 0) {
+      this._goalDistance = this.clampDistance(
+        this._goalDistance * Math.exp(wheel * options.zoomSpeed)
+      );
+    }
+
+    const t = getDampingFactor(options.damping, deltaTime);
+    this._yaw += (this._goalYaw - this._yaw) * t;
+    this._pitch += (this._goalPitch - this._pitch) * t;
+    this._distance += (this._goalDistance - this._distance) * t;
+    this._target = this._target.lerp(this._goalTarget, t);
+
+    this._camera.orbit(this._distance, this._yaw, this._pitch, this._target);
+    if (this._camera.isOrthographic()) {
+      this._camera.setOrthoSize(
+        this._distance * Math.tan((this._camera.fov * Math.PI) / 360)
+      );
+    }
+  }
+
+  public dispose(): void {
+    this._input.dispose();
+  }
+
+  // Size of a screen pixel at the target's depth
+  private getWorldUnitsPerPixel(): number {
+    const camera = this._camera;
+    const visibleHeight = camera.isOrthographic()
+      ? (2 * camera.orthoSize) / camera.zoom
+      : (2 * this._distance) / camera.getFocalLength();
+    return visibleHeight / camera.viewportHeight;
+  }
+
+  private clampPitch(pitch: number): number {
+    return Math.min(
+      this._options.maxPitch,
+      Math.max(this._options.minPitch, pitch)
+    );
+  }
+
+  private clampDistance(distance: number): number {
+    return Math.min(
+      this._options.maxDistance,
+      Math.max(this._options.minDistance, distance)
+    );
+  }
+}
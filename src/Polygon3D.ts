@@ -1,3 +1,5 @@
+import { Vec3 } from './Vec3';
+
 // Polygon3D class containing vertex indices that reference vertices in the parent Mesh3D
 export class Polygon3D {
     public color: string;
@@ -22,4 +24,39 @@ export class Polygon3D {
     public get vertexIndices(): number[] {
         return this._vertexIndices;
     }
-}
\ No newline at end of file
+
+    // Unnormalized face normal from the given vertex positions (Newell's method)
+    // Follows the right-hand rule over the winding order: counter-clockwise
+    // when seen from the side the normal points to
+    // Works for non-triangular and slightly non-planar polygons
+    public computeNormal(vertices: { x: number; y: number; z: number }[]): Vec3 {
+        let nx = 0;
+        let ny = 0;
+        let nz = 0;
+        const n = this._vertexIndices.length;
+
+        for (let i = 0; i < n; i++) {
+            const current = vertices[this._vertexIndices[i]];
+            const next = vertices[this._vertexIndices[(i + 1) % n]];
+            nx += (current.y - next.y) * (current.z + next.z);
+            ny += (current.z - next.z) * (current.x + next.x);
+            nz += (current.x - next.x) * (current.y + next.y);
+        }
+
+        return new Vec3(nx, ny, nz);
+    }
+
+    // Average of the polygon's vertex positions
+    public computeCentroid(vertices: { x: number; y: number; z: number }[]): Vec3 {
+        let x = 0;
+        let y = 0;
+        let z = 0;
+        for (const index of this._vertexIndices) {
+            x += vertices[index].x;
+            y += vertices[index].y;
+            z += vertices[index].z;
+        }
+        const count = Math.max(this._vertexIndices.length, 1);
+        return new Vec3(x / count, y / count, z / count);
+    }
+}
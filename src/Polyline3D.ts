@@ -0,0 +1,26 @@
+// Polyline3D class: an open chain of vertices of the parent Mesh3D
+// Unlike Polygon3D the loop isn't closed; polylines are drawn as line
+// segments only (never filled, back-face culled or used as occluders)
+export class Polyline3D {
+  public color: string;
+  private _vertexIndices: number[]; // Consecutive indices are connected
+
+  constructor(color: string, vertexIndices: number[]) {
+    this.color = color;
+    this._vertexIndices = vertexIndices;
+  }
+
+  // Getter for vertex indices
+  public getVertexIndices(): number[] {
+    return this._vertexIndices;
+  }
+
+  // Setter for vertex indices
+  public setVertexIndices(vertexIndices: number[]): void {
+    this._vertexIndices = vertexIndices;
+  }
+
+  public get vertexIndices(): number[] {
+    return this._vertexIndices;
+  }
+}
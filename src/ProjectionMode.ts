@@ -0,0 +1,5 @@
+// Projection mode for cameras
+export enum ProjectionMode {
+  PERSPECTIVE = "PERSPECTIVE",
+  ORTHOGRAPHIC = "ORTHOGRAPHIC", // Parallel projection (no foreshortening)
+}
@@ -0,0 +1,212 @@
+import { Vec3 } from "./Vec3";
+
+// Euler rotation orders, named after the matrix product (Three.js convention):
+//   "ZYX" → R = Rz · Ry · Rx: X is applied first (object transforms)
+//   "YXZ" → R = Ry · Rx · Rz: Z is applied first (camera yaw → pitch → roll)
+export type EulerOrder = "XYZ" | "XZY" | "YXZ" | "YZX" | "ZXY" | "ZYX";
+
+// Quaternion class: immutable rotation (unit quaternion) without gimbal lock
+// Every operation returns a new Quaternion
+export class Quaternion {
+  public readonly x: number;
+  public readonly y: number;
+  public readonly z: number;
+  public readonly w: number;
+
+  constructor(x: number = 0, y: number = 0, z: number = 0, w: number = 1) {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    this.w = w;
+  }
+
+  public static identity(): Quaternion {
+    return new Quaternion(0, 0, 0, 1);
+  }
+
+  // Rotation of angleInDegrees around an axis (right-handed)
+  public static fromAxisAngle(axis: Vec3, angleInDegrees: number): Quaternion {
+    const unitAxis = axis.normalize();
+    const halfAngle = (angleInDegrees * Math.PI) / 360;
+    const s = Math.sin(halfAngle);
+    return new Quaternion(
+      unitAxis.x * s,
+      unitAxis.y * s,
+      unitAxis.z * s,
+      Math.cos(halfAngle)
+    );
+  }
+
+  // Rotation from Euler angles in degrees, composed in the given order
+  public static fromEuler(
+    x: number,
+    y: number,
+    z: number,
+    order: EulerOrder = "ZYX"
+  ): Quaternion {
+    const axes: Record<string, Quaternion> = {
+      X: Quaternion.fromAxisAngle(new Vec3(1, 0, 0), x),
+      Y: Quaternion.fromAxisAngle(new Vec3(0, 1, 0), y),
+      Z: Quaternion.fromAxisAngle(new Vec3(0, 0, 1), z),
+    };
+
+    return axes[order[0]].multiply(axes[order[1]]).multiply(axes[order[2]]);
+  }
+
+  // Rotation whose local X/Y/Z axes map to right/up/forward
+  // The three vectors must be orthonormal and right-handed (right × up = forward)
+  public static fromBasis(right: Vec3, up: Vec3, forward: Vec3): Quaternion {
+    // Rotation matrix columns are the basis vectors
+    const m00 = right.x,
+      m01 = up.x,
+      m02 = forward.x;
+    const m10 = right.y,
+      m11 = up.y,
+      m12 = forward.y;
+    const m20 = right.z,
+      m21 = up.z,
+      m22 = forward.z;
+
+    // Shepperd's method: pick the largest diagonal term for numerical stability
+    const trace = m00 + m11 + m22;
+    if (trace > 0) {
+      const s = 0.5 / Math.sqrt(trace + 1);
+      return new Quaternion(
+        (m21 - m12) * s,
+        (m02 - m20) * s,
+        (m10 - m01) * s,
+        0.25 / s
+      ).normalize();
+    } else if (m00 > m11 && m00 > m22) {
+      const s = 2 * Math.sqrt(1 + m00 - m11 - m22);
+      return new Quaternion(
+        0.25 * s,
+        (m01 + m10) / s,
+        (m02 + m20) / s,
+        (m21 - m12) / s
+      ).normalize();
+    } else if (m11 > m22) {
+      const s = 2 * Math.sqrt(1 + m11 - m00 - m22);
+      return new Quaternion(
+        (m01 + m10) / s,
+        0.25 * s,
+        (m12 + m21) / s,
+        (m02 - m20) / s
+      ).normalize();
+    } else {
+      const s = 2 * Math.sqrt(1 + m22 - m00 - m11);
+      return new Quaternion(
+        (m02 + m20) / s,
+        (m12 + m21) / s,
+        0.25 * s,
+        (m10 - m01) / s
+      ).normalize();
+    }
+  }
+
+  // Rotation that turns +Z towards `forward` while keeping `up` as close to +Y as possible
+  // Falls back to another up vector when forward and up are parallel
+  public static lookRotation(
+    forward: Vec3,
+    up: Vec3 = new Vec3(0, 1, 0)
+  ): Quaternion {
+    const f = forward.normalize();
+    let r = up.cross(f);
+    if (r.lengthSquared() < 1e-12) {
+      // Looking straight along the up axis: pick any perpendicular right vector
+      r = new Vec3(0, 0, 1).cross(f);
+      if (r.lengthSquared() < 1e-12) {
+        r = new Vec3(1, 0, 0).cross(f);
+      }
+    }
+    r = r.normalize();
+    const u = f.cross(r);
+    return Quaternion.fromBasis(r, u, f);
+  }
+
+  // Hamilton product: (this · q) applies q first, then this
+  public multiply(q: Quaternion): Quaternion {
+    return new Quaternion(
+      this.w * q.x + this.x * q.w + this.y * q.z - this.z * q.y,
+      this.w * q.y - this.x * q.z + this.y * q.w + this.z * q.x,
+      this.w * q.z + this.x * q.y - this.y * q.x + this.z * q.w,
+      this.w * q.w - this.x * q.x - this.y * q.y - this.z * q.z
+    );
+  }
+
+  // Inverse rotation (for unit quaternions the conjugate is the inverse)
+  public conjugate(): Quaternion {
+    return new Quaternion(-this.x, -this.y, -this.z, this.w);
+  }
+
+  public dot(q: Quaternion): number {
+    return this.x * q.x + this.y * q.y + this.z * q.z + this.w * q.w;
+  }
+
+  public length(): number {
+    return Math.sqrt(this.dot(this));
+  }
+
+  public normalize(): Quaternion {
+    const length = this.length();
+    if (length === 0) {
+      return Quaternion.identity();
+    }
+    return new Quaternion(
+      this.x / length,
+      this.y / length,
+      this.z / length,
+      this.w / length
+    );
+  }
+
+  // Rotate a vector: v' = q · v · q⁻¹ (expanded form, no intermediate quaternions)
+  public rotateVector(v: Vec3): Vec3 {
+    const qv = new Vec3(this.x, this.y, this.z);
+    const t = qv.cross(v).scale(2);
+    return v.add(t.scale(this.w)).add(qv.cross(t));
+  }
+
+  // Spherical linear interpolation along the shortest arc
+  public static slerp(a: Quaternion, b: Quaternion, t: number): Quaternion {
+    let cosTheta = a.dot(b);
+
+    // Flip one end to take the shorter path around the 4D sphere
+    let end = b;
+    if (cosTheta < 0) {
+      cosTheta = -cosTheta;
+      end = new Quaternion(-b.x, -b.y, -b.z, -b.w);
+    }
+
+    // Nearly identical rotations: fall back to normalized lerp
+    if (cosTheta > 0.9995) {
+      return new Quaternion(
+        a.x + (end.x - a.x) * t,
+        a.y + (end.y - a.y) * t,
+        a.z + (end.z - a.z) * t,
+        a.w + (end.w - a.w) * t
+      ).normalize();
+    }
+
+    const theta = Math.acos(cosTheta);
+    const sinTheta = Math.sin(theta);
+    const weightA = Math.sin((1 - t) * theta) / sinTheta;
+    const weightB = Math.sin(t * theta) / sinTheta;
+
+    return new Quaternion(
+      a.x * weightA + end.x * weightB,
+      a.y * weightA + end.y * weightB,
+      a.z * weightA + end.z * weightB,
+      a.w * weightA + end.w * weightB
+    );
+  }
+
+  public slerp(q: Quaternion, t: number): Quaternion {
+    return Quaternion.slerp(this, q, t);
+  }
+
+  // True when both represent the same rotation (q and -q are equivalent)
+  public equals(q: Quaternion, epsilon: number = 1e-9): boolean {
+    return Math.abs(Math.abs(this.dot(q)) - 1) <= epsilon;
+  }
+}
@@ -0,0 +1,81 @@
+import { Vec3 } from "./Vec3";
+
+// Ray class: half-line from an origin along a unit direction
+// Distances along the ray (t) are in world units, so hits from different
+// objects can be compared directly
+export class Ray {
+  public readonly origin: Vec3;
+  public readonly direction: Vec3;
+
+  constructor(
+    origin: { x: number; y: number; z: number },
+    direction: { x: number; y: number; z: number }
+  ) {
+    const unit = Vec3.from(direction).normalize();
+    if (unit.lengthSquared() === 0) {
+      throw new Error("Ray direction must be non-zero");
+    }
+    this.origin = Vec3.from(origin);
+    this.direction = unit;
+  }
+
+  // Point at distance t along the ray
+  public at(t: number): Vec3 {
+    return this.origin.add(this.direction.scale(t));
+  }
+
+  // True if the ray passes within radius of center, in front of the origin
+  // (or starts inside the sphere)
+  public intersectsSphere(
+    center: { x: number; y: number; z: number },
+    radius: number
+  ): boolean {
+    const toCenter = Vec3.from(center).subtract(this.origin);
+    const along = toCenter.dot(this.direction);
+    const radiusSquared = radius * radius;
+    if (along < 0) {
+      return toCenter.lengthSquared() <= radiusSquared;
+    }
+    return toCenter.lengthSquared() - along * along <= radiusSquared;
+  }
+
+  // Möller–Trumbore ray/triangle test
+  // Returns the distance to the hit, or null on a miss or a hit behind the
+  // origin. Triangles are hit from both sides unless cullBackFace is set;
+  // the front side is the one the triangle is counter-clockwise from
+  public intersectTriangle(
+    a: Vec3,
+    b: Vec3,
+    c: Vec3,
+    cullBackFace: boolean = false
+  ): number | null {
+    const EPSILON = 1e-12;
+    const edge1 = b.subtract(a);
+    const edge2 = c.subtract(a);
+    const p = this.direction.cross(edge2);
+    const determinant = edge1.dot(p);
+
+    // determinant > 0: the ray enters through the front side
+    if (
+      cullBackFace ? determinant < EPSILON : Math.abs(determinant) < EPSILON
+    ) {
+      return null; // Back face, or the ray is parallel to the triangle
+    }
+
+    const inverse = 1 / determinant;
+    const s = this.origin.subtract(a);
+    const u = s.dot(p) * inverse;
+    if (u < 0 || u > 1) {
+      return null;
+    }
+
+    const q = s.cross(edge1);
+    const v = this.direction.dot(q) * inverse;
+    if (v < 0 || u + v > 1) {
+      return null;
+    }
+
+    const t = edge2.dot(q) * inverse;
+    return t >= 0 ? t : null;
+  }
+}
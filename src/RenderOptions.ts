@@ -0,0 +1,53 @@
+// Which edges of a mesh are drawn in wireframe views
+export enum EdgeMode {
+  ALL = "ALL", // Every polygon edge, including triangulation diagonals
+  FEATURE = "FEATURE", // Boundary, crease and silhouette edges only (CAD style)
+}
+
+// How edges hidden behind closer faces are drawn
+export enum HiddenLineMode {
+  SHOW = "SHOW", // No occlusion test: every edge is drawn (see-through wireframe)
+  HIDE = "HIDE", // Occluded parts of edges are dropped
+  DASHED = "DASHED", // Occluded parts of edges are drawn dashed
+}
+
+// What drawWorld draws for each polygon
+export enum RenderMode {
+  WIREFRAME = "WIREFRAME", // Edges only
+  SOLID = "SOLID", // Flat-shaded fills, depth sorted (painter's algorithm)
+  SOLID_WIRE = "SOLID_WIRE", // Fills with the edges drawn on top
+}
+
+// Options controlling how drawWorld renders a scene
+export interface RenderOptions {
+  renderMode: RenderMode;
+  edgeMode: EdgeMode;
+  creaseAngle: number; // Degrees: feature mode draws edges that fold more than this
+  silhouetteEdges: boolean; // Feature mode: also draw edges between front and back faces
+  backFaceCulling: boolean; // Skip edges whose adjacent polygons all face away from the camera
+  hiddenLineMode: HiddenLineMode; // Occlusion by closer faces of any object in the world
+  hiddenLineDash: number[]; // Dash pattern (pixels on/off) for HiddenLineMode.DASHED
+  wireColor: string | null; // Edge color override (null = polygon colors)
+  lightDirection: { x: number; y: number; z: number }; // World-space direction the light travels
+  ambientLight: number; // 0-1: brightness of faces turned away from the light
+}
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  renderMode: RenderMode.WIREFRAME,
+  edgeMode: EdgeMode.ALL,
+  creaseAngle: 30,
+  silhouetteEdges: true,
+  backFaceCulling: false,
+  hiddenLineMode: HiddenLineMode.SHOW,
+  hiddenLineDash: [4, 4],
+  wireColor: null,
+  lightDirection: { x: -0.4, y: -1, z: 0.6 }, // Downwards, from above and to the right
+  ambientLight: 0.25,
+};
+
+// Fill in unspecified options with their defaults
+export function resolveRenderOptions(
+  options: Partial<RenderOptions> = {}
+): RenderOptions {
+  return { ...DEFAULT_RENDER_OPTIONS, ...options };
+}
@@ -0,0 +1,40 @@
+import { Point2D } from "./Point2D";
+
+// RenderTarget interface: the drawing operations the renderers need
+// Coordinates are in pixels with the origin at the top-left corner.
+// Implementations: Canvas (browser 2D context), FrameBuffer (pure TypeScript)
+export interface RenderTarget {
+  readonly width: number;
+  readonly height: number;
+
+  // Fill the whole target with a color
+  clearScreen(color?: string): void;
+
+  // Straight line; dash is an on/off pattern in pixels (empty = solid)
+  drawLine(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color?: string,
+    lineWidth?: number,
+    dash?: number[]
+  ): void;
+
+  // Filled closed polygon (at least 3 points)
+  fillPolygon(points: Point2D[], color?: string): void;
+
+  // Single line of text; (x, y) is the top-left corner of the text box
+  drawText(
+    text: string,
+    x: number,
+    y: number,
+    color?: string,
+    size?: number
+  ): void;
+
+  // Optional structure hints: the renderers wrap each SceneObject's output in
+  // beginGroup/endGroup. Raster targets don't need to implement them
+  beginGroup?(name: string): void;
+  endGroup?(): void;
+}
@@ -1,17 +1,37 @@
 import { Mesh3D } from "./Mesh3D";
 import { VisibilityState } from "./VisibilityState";
+import { Transform } from "./Transform";
+import { Mat4 } from "./Mat4";
+import { Quaternion } from "./Quaternion";
+
+// Called with the object whose local transform changed (see subscribe)
+export type SceneObjectListener = (sceneObject: SceneObject) => void;
+
+// Source of generated ids ("object-1", "object-2", ...)
+let nextObjectId = 1;
 
 // SceneObject class representing an instance of a mesh with its transform in the scene
 // This follows the Three.js/Unity pattern: shared geometry + per-instance transform
+// SceneObjects form a hierarchy: a child's transform is relative to its parent
 export class SceneObject {
+  private _id: string;
+  private _tags: Set<string>;
+  private _listeners: SceneObjectListener[];
   private _mesh: Mesh3D;
   private _visibilityState: VisibilityState;
-  
+  private _parent: SceneObject | null;
+  private _children: SceneObject[];
+  private _rotationQuaternion: Quaternion | null; // Overrides Euler rotation when set
+
   // Transform properties (directly accessible for intuitive API)
   public position: { x: number; y: number; z: number };
   public rotation: { x: number; y: number; z: number }; // Euler angles in degrees
   public scale: { x: number; y: number; z: number };
 
+  // Optional display name (not unique) and free-form data for tools and games
+  public name: string | null;
+  public userData: Record<string, unknown>;
+
   constructor(
     mesh: Mesh3D,
     position = { x: 0, y: 0, z: 0 },
@@ -23,6 +43,77 @@ export class SceneObject {
     this.rotation = rotation;
     this.scale = scale;
     this._visibilityState = VisibilityState.VISIBLE; // Default to visible
+    this._parent = null;
+    this._children = [];
+    this._rotationQuaternion = null;
+    this._id = `object-${nextObjectId++}`;
+    this._tags = new Set();
+    this._listeners = [];
+    this.name = null;
+    this.userData = {};
+  }
+
+  // Create an empty node (no geometry) used to group or pivot children
+  // e.g. a moon attached to a rotating pivot at the planet's position
+  public static createGroup(
+    position = { x: 0, y: 0, z: 0 },
+    rotation = { x: 0, y: 0, z: 0 },
+    scale = { x: 1, y: 1, z: 1 }
+  ): SceneObject {
+    return new SceneObject(new Mesh3D([], []), position, rotation, scale);
+  }
+
+  // Stable id, generated on creation and kept by saved scenes
+  public getId(): string {
+    return this._id;
+  }
+
+  // Restore an id (e.g. when loading a scene); the caller keeps ids unique
+  // Generated ids skip past restored ones so new objects never collide
+  public setId(id: string): void {
+    const match = /^object-(\d+)$/.exec(id);
+    if (match) {
+      nextObjectId = Math.max(nextObjectId, Number(match[1]) + 1);
+    }
+    this._id = id;
+  }
+
+  public addTag(tag: string): void {
+    this._tags.add(tag);
+  }
+
+  public removeTag(tag: string): void {
+    this._tags.delete(tag);
+  }
+
+  public hasTag(tag: string): boolean {
+    return this._tags.has(tag);
+  }
+
+  public getTags(): string[] {
+    return [...this._tags];
+  }
+
+  // Listen for local transform changes made through the setters on this
+  // object or any of its descendants (World uses this on its root objects).
+  // Writing to the position/rotation/scale fields directly is not reported.
+  // Returns a function that removes the listener
+  public subscribe(listener: SceneObjectListener): () => void {
+    this._listeners.push(listener);
+    return () => {
+      this._listeners = this._listeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Tell listeners on this object and its ancestors about a transform change
+  protected notifyTransformChanged(): void {
+    let node: SceneObject | null = this;
+    while (node !== null) {
+      for (const listener of node._listeners) {
+        listener(this);
+      }
+      node = node._parent;
+    }
   }
 
   // Getter for mesh
@@ -53,32 +144,166 @@ export class SceneObject {
     return this._visibilityState === VisibilityState.VISIBLE;
   }
 
-  // Calculate world-space bounding radius (accounting for scale)
+  // Calculate world-space bounding radius (accounting for scale of the whole parent chain)
   public getWorldBoundingRadius(): number {
     const meshRadius = this._mesh.getBoundingRadius();
-    // Use the maximum scale component for conservative bounds
-    const maxScale = Math.max(
-      Math.abs(this.scale.x),
-      Math.abs(this.scale.y),
-      Math.abs(this.scale.z)
+
+    // Use the longest scaled axis of the world matrix for conservative bounds
+    return meshRadius * this.getWorldMatrix().getMaxScaleOnAxis();
+  }
+
+  // Rotation as a quaternion: the stored quaternion, or the Euler angles
+  // converted with the object order (X → Y → Z)
+  public getRotationQuaternion(): Quaternion {
+    return (
+      this._rotationQuaternion ??
+      Quaternion.fromEuler(
+        this.rotation.x,
+        this.rotation.y,
+        this.rotation.z,
+        "ZYX"
+      )
+    );
+  }
+
+  // Store the rotation as a quaternion (takes precedence over Euler angles
+  // until setRotation is called)
+  public setRotationQuaternion(rotation: Quaternion): void {
+    this._rotationQuaternion = rotation.normalize();
+    this.notifyTransformChanged();
+  }
+
+  public hasRotationQuaternion(): boolean {
+    return this._rotationQuaternion !== null;
+  }
+
+  // Local transform (relative to the parent) as a Transform
+  // Shares the position/rotation/scale objects, so in-place edits apply both ways
+  public getLocalTransform(): Transform {
+    return new Transform(
+      this.position,
+      this.rotation,
+      this.scale,
+      this._rotationQuaternion
+    );
+  }
+
+  // Local matrix: scale → rotate → translate (relative to the parent)
+  public getLocalMatrix(): Mat4 {
+    return Mat4.compose(
+      this.position,
+      this.getRotationQuaternion(),
+      this.scale
     );
-    return meshRadius * maxScale;
+  }
+
+  // Model → world matrix (parent chain composed: root · ... · parent · local)
+  public getWorldMatrix(): Mat4 {
+    const local = this.getLocalMatrix();
+    return this._parent === null
+      ? local
+      : Mat4.multiply(this._parent.getWorldMatrix(), local);
+  }
+
+  // Hierarchy getters
+  public getParent(): SceneObject | null {
+    return this._parent;
+  }
+
+  public getChildren(): SceneObject[] {
+    return this._children;
+  }
+
+  // Topmost ancestor (this object if it has no parent)
+  public getRoot(): SceneObject {
+    let node: SceneObject = this;
+    while (node._parent !== null) {
+      node = node._parent;
+    }
+    return node;
+  }
+
+  // True if this object is the given object or one of its ancestors
+  public isAncestorOf(sceneObject: SceneObject): boolean {
+    for (
+      let node: SceneObject | null = sceneObject;
+      node !== null;
+      node = node._parent
+    ) {
+      if (node === this) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Attach a child (detaching it from its previous parent first)
+  // Its position/rotation/scale are kept as-is and become relative to this object
+  public addChild(child: SceneObject): void {
+    if (child.isAncestorOf(this)) {
+      throw new Error(
+        "Cannot add a SceneObject as a child of itself or its descendants"
+      );
+    }
+
+    child.removeFromParent();
+    child._parent = this;
+    this._children.push(child);
+  }
+
+  // Detach a direct child (its subtree stays attached to it)
+  public removeChild(child: SceneObject): void {
+    if (child._parent !== this) {
+      return;
+    }
+
+    this._children = this._children.filter((obj) => obj !== child);
+    child._parent = null;
+  }
+
+  // Detach this object from its parent, if any
+  public removeFromParent(): void {
+    if (this._parent !== null) {
+      this._parent.removeChild(this);
+    }
+  }
+
+  // Reparent this object (null detaches it)
+  public setParent(parent: SceneObject | null): void {
+    if (parent === null) {
+      this.removeFromParent();
+    } else {
+      parent.addChild(this);
+    }
+  }
+
+  // Depth-first, pre-order traversal of this object and its descendants
+  public traverse(callback: (sceneObject: SceneObject) => void): void {
+    callback(this);
+    for (const child of this._children) {
+      child.traverse(callback);
+    }
   }
 
   // Helper methods for common operations
   public setPosition(x: number, y: number, z: number): void {
     this.position = { x, y, z };
+    this.notifyTransformChanged();
   }
 
   public setRotation(x: number, y: number, z: number): void {
     this.rotation = { x, y, z };
+    this._rotationQuaternion = null;
+    this.notifyTransformChanged();
   }
 
   public setScale(x: number, y: number, z: number): void {
     this.scale = { x, y, z };
+    this.notifyTransformChanged();
   }
 
   public setUniformScale(scale: number): void {
     this.scale = { x: scale, y: scale, z: scale };
+    this.notifyTransformChanged();
   }
 }
@@ -0,0 +1,228 @@
+import { Vec3 } from "./Vec3";
+import { Mat4 } from "./Mat4";
+import { Ray } from "./Ray";
+import { Frustum } from "./Frustum";
+import { BoundingBox } from "./BoundingBox";
+import { BoundingVolumeHierarchy } from "./BoundingVolumeHierarchy";
+import { SceneObject } from "./SceneObject";
+
+export interface SpatialIndexOptions {
+  // Slack around each object's bounds; objects moving less than this don't
+  // touch the tree (default 0.5 world units)
+  margin?: number;
+  // Sync with the hierarchy before every query (default true). Turn off for
+  // mostly static scenes and call World.updateSpatialIndex after changes
+  autoUpdate?: boolean;
+}
+
+// What the index knows about one object since the last sync
+interface IndexEntry {
+  parent: SceneObject | null;
+  transform: number[]; // Local transform values, to detect changes
+  worldMatrix: Mat4;
+  center: Vec3; // World bounding sphere
+  radius: number;
+  meshRadius: number;
+  syncPass: number;
+}
+
+// Number of values in a transform snapshot (see readTransform)
+const TRANSFORM_SIZE = 14;
+
+// SpatialIndex class: bounding volume hierarchy over a World's objects
+// Every object (children included) is a leaf with its world bounding
+// sphere, the same sphere cullSceneObject tests. sync() walks the hierarchy
+// and only recomputes world matrices for objects whose local transform,
+// parent or mesh radius changed (and their descendants); everything else
+// costs a comparison of a few numbers
+export class SpatialIndex {
+  private _bvh: BoundingVolumeHierarchy<SceneObject>;
+  private _entries: Map<SceneObject, IndexEntry>;
+  private _syncPass: number;
+  public autoUpdate: boolean;
+
+  constructor(options: SpatialIndexOptions = {}) {
+    this._bvh = new BoundingVolumeHierarchy(options.margin ?? 0.5);
+    this._entries = new Map();
+    this._syncPass = 0;
+    this.autoUpdate = options.autoUpdate ?? true;
+  }
+
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  // Height of the underlying tree (for diagnostics)
+  public getHeight(): number {
+    return this._bvh.getHeight();
+  }
+
+  // Bring the index up to date with the hierarchy under roots
+  // Objects no longer reachable from the roots are removed
+  public sync(roots: SceneObject[]): void {
+    const syncPass = ++this._syncPass;
+
+    const visit = (
+      sceneObject: SceneObject,
+      parentMatrix: Mat4 | null,
+      parentMoved: boolean
+    ): void => {
+      let entry = this._entries.get(sceneObject);
+      const isNew = entry === undefined;
+      if (!entry) {
+        entry = {
+          parent: null,
+          transform: new Array(TRANSFORM_SIZE).fill(NaN),
+          worldMatrix: Mat4.identity(),
+          center: Vec3.zero(),
+          radius: 0,
+          meshRadius: 0,
+          syncPass,
+        };
+        this._entries.set(sceneObject, entry);
+      }
+
+      // Evaluate both checks: readTransform refreshes the snapshot
+      const transformChanged = readTransform(sceneObject, entry.transform);
+      const moved =
+        isNew ||
+        parentMoved ||
+        transformChanged ||
+        entry.parent !== sceneObject.getParent();
+      const meshRadius = sceneObject.getMesh().getBoundingRadius();
+
+      if (moved || meshRadius !== entry.meshRadius) {
+        if (moved) {
+          const local = sceneObject.getLocalMatrix();
+          entry.worldMatrix = parentMatrix
+            ? Mat4.multiply(parentMatrix, local)
+            : local;
+          entry.parent = sceneObject.getParent();
+        }
+        entry.meshRadius = meshRadius;
+        entry.center = entry.worldMatrix.getTranslation();
+        entry.radius = meshRadius * entry.worldMatrix.getMaxScaleOnAxis();
+
+        const box = BoundingBox.fromSphere(entry.center, entry.radius);
+        if (isNew) {
+          this._bvh.insert(sceneObject, box);
+        } else {
+          this._bvh.update(sceneObject, box);
+        }
+      }
+      entry.syncPass = syncPass;
+
+      for (const child of sceneObject.getChildren()) {
+        visit(child, entry.worldMatrix, moved);
+      }
+    };
+
+    for (const root of roots) {
+      visit(root, null, false);
+    }
+
+    for (const [sceneObject, entry] of this._entries) {
+      if (entry.syncPass !== syncPass) {
+        this._bvh.remove(sceneObject);
+        this._entries.delete(sceneObject);
+      }
+    }
+  }
+
+  public clear(): void {
+    this._bvh.clear();
+    this._entries.clear();
+  }
+
+  // Objects whose bounding sphere is at least partly inside the frustum
+  // Subtrees entirely outside (or inside) are decided with one box test
+  public queryFrustum(frustum: Frustum): SceneObject[] {
+    const result: SceneObject[] = [];
+    this._bvh.queryFrustum(frustum, (sceneObject, contained) => {
+      const entry = this._entries.get(sceneObject);
+      if (
+        entry &&
+        (contained || frustum.intersectsSphere(entry.center, entry.radius))
+      ) {
+        result.push(sceneObject);
+      }
+    });
+    return result;
+  }
+
+  // Objects whose bounding sphere the ray passes through within maxDistance
+  public queryRay(ray: Ray, maxDistance: number = Infinity): SceneObject[] {
+    const result: SceneObject[] = [];
+    this._bvh.queryRay(ray, maxDistance, (sceneObject) => {
+      const entry = this._entries.get(sceneObject);
+      if (
+        entry &&
+        ray.intersectsSphere(entry.center, entry.radius) &&
+        entry.center.distanceTo(ray.origin) - entry.radius <= maxDistance
+      ) {
+        result.push(sceneObject);
+      }
+    });
+    return result;
+  }
+
+  // Objects whose bounding sphere overlaps the sphere around center
+  public querySphere(
+    center: { x: number; y: number; z: number },
+    radius: number
+  ): SceneObject[] {
+    const point = Vec3.from(center);
+    const result: SceneObject[] = [];
+    this._bvh.querySphere(point, radius, (sceneObject) => {
+      const entry = this._entries.get(sceneObject);
+      if (entry && entry.center.distanceTo(point) <= radius + entry.radius) {
+        result.push(sceneObject);
+      }
+    });
+    return result;
+  }
+
+  // Objects whose bounding sphere overlaps the box
+  public queryBox(box: BoundingBox): SceneObject[] {
+    const result: SceneObject[] = [];
+    this._bvh.queryBox(box, (sceneObject) => {
+      const entry = this._entries.get(sceneObject);
+      if (entry && box.intersectsSphere(entry.center, entry.radius)) {
+        result.push(sceneObject);
+      }
+    });
+    return result;
+  }
+}
+
+// Copy the object's local transform into snapshot; true if anything changed
+function readTransform(sceneObject: SceneObject, snapshot: number[]): boolean {
+  const { position, rotation, scale } = sceneObject;
+  const quaternion = sceneObject.hasRotationQuaternion()
+    ? sceneObject.getRotationQuaternion()
+    : null;
+
+  // Runs for every object on every sync: compare in place, no allocations
+  let changed = false;
+  const write = (index: number, value: number): void => {
+    if (snapshot[index] !== value) {
+      snapshot[index] = value;
+      changed = true;
+    }
+  };
+  write(0, position.x);
+  write(1, position.y);
+  write(2, position.z);
+  write(3, rotation.x);
+  write(4, rotation.y);
+  write(5, rotation.z);
+  write(6, scale.x);
+  write(7, scale.y);
+  write(8, scale.z);
+  write(9, quaternion ? 1 : 0);
+  write(10, quaternion ? quaternion.x : 0);
+  write(11, quaternion ? quaternion.y : 0);
+  write(12, quaternion ? quaternion.z : 0);
+  write(13, quaternion ? quaternion.w : 0);
+  return changed;
+}
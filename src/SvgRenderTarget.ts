@@ -0,0 +1,138 @@
+import { Point2D } from "./Point2D";
+import { RenderTarget } from "./RenderTarget";
+import { SCREEN_WIDTH, SCREEN_HEIGHT } from "./constants";
+
+export interface SvgRenderTargetOptions {
+  groupObjects?: boolean; // Wrap each SceneObject's elements in a <g> (default false)
+  precision?: number; // Decimal places for coordinates (default 2)
+}
+
+// SvgRenderTarget class: records drawing calls as SVG elements
+// Elements are emitted in call order, so the SVG keeps the renderer's draw
+// order (painter's sorting, wire overlay on top). Since drawWorld culls and
+// clips before drawing, geometry outside the view never reaches the document
+export class SvgRenderTarget implements RenderTarget {
+  public readonly width: number;
+  public readonly height: number;
+  private _groupObjects: boolean;
+  private _precision: number;
+  private _elements: string[];
+  private _openGroups: number;
+
+  constructor(
+    width: number = SCREEN_WIDTH,
+    height: number = SCREEN_HEIGHT,
+    options: SvgRenderTargetOptions = {}
+  ) {
+    if (width <= 0 || height <= 0) {
+      throw new Error(`Invalid SVG size: ${width}x${height}`);
+    }
+
+    this.width = width;
+    this.height = height;
+    this._groupObjects = options.groupObjects ?? false;
+    this._precision = options.precision ?? 2;
+    this._elements = [];
+    this._openGroups = 0;
+  }
+
+  // Start a new document with a background rectangle
+  public clearScreen(color: string = "#000000"): void {
+    this._elements = [
+      `<rect width="${this.width}" height="${this.height}" fill="${escapeXml(
+        color
+      )}"/>`,
+    ];
+    this._openGroups = 0;
+  }
+
+  public drawLine(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: string = "#ffffff",
+    lineWidth: number = 2,
+    dash: number[] = []
+  ): void {
+    const dashAttribute =
+      dash.length > 0 ? ` stroke-dasharray="${dash.join(" ")}"` : "";
+    this._elements.push(
+      `<line x1="${this.format(x1)}" y1="${this.format(y1)}" x2="${this.format(
+        x2
+      )}" y2="${this.format(y2)}" stroke="${escapeXml(
+        color
+      )}" stroke-width="${lineWidth}"${dashAttribute}/>`
+    );
+  }
+
+  public fillPolygon(points: Point2D[], color: string = "#ffffff"): void {
+    if (points.length < 3) {
+      return;
+    }
+
+    const pointList = points
+      .map((p) => `${this.format(p.x)},${this.format(p.y)}`)
+      .join(" ");
+    this._elements.push(
+      `<polygon points="${pointList}" fill="${escapeXml(color)}"/>`
+    );
+  }
+
+  public drawText(
+    text: string,
+    x: number,
+    y: number,
+    color: string = "#ffffff",
+    size: number = 14
+  ): void {
+    this._elements.push(
+      `<text x="${this.format(x)}" y="${this.format(
+        y
+      )}" font-family="monospace" font-size="${size}" dominant-baseline="hanging" fill="${escapeXml(
+        color
+      )}">${escapeXml(text)}</text>`
+    );
+  }
+
+  public beginGroup(name: string): void {
+    if (!this._groupObjects) {
+      return;
+    }
+    this._elements.push(`<g data-name="${escapeXml(name)}">`);
+    this._openGroups++;
+  }
+
+  public endGroup(): void {
+    if (!this._groupObjects || this._openGroups === 0) {
+      return;
+    }
+    this._elements.push("</g>");
+    this._openGroups--;
+  }
+
+  // Complete SVG document (unclosed groups are closed)
+  public toSVG(): string {
+    const closing = "</g>".repeat(this._openGroups);
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}" stroke-linecap="round">`,
+      ...this._elements,
+      ...(closing ? [closing] : []),
+      "</svg>",
+      "",
+    ].join("\n");
+  }
+
+  // Number formatting without trailing zeros ("12.5", not "12.50")
+  private format(value: number): string {
+    return String(Number(value.toFixed(this._precision)));
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,53 @@
+import {
+  InputEvent,
+  InputListener,
+  InputSource,
+  PointerButton,
+} from "./InputSource";
+
+// SyntheticInputSource class: input events emitted from code
+// Drives controllers in tests and scripted demos without a DOM
+export class SyntheticInputSource implements InputSource {
+  private _listeners: InputListener[];
+
+  constructor() {
+    this._listeners = [];
+  }
+
+  public subscribe(listener: InputListener): () => void {
+    this._listeners.push(listener);
+    return () => {
+      this._listeners = this._listeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Deliver an event to every listener
+  public emit(event: InputEvent): void {
+    for (const listener of [...this._listeners]) {
+      listener(event);
+    }
+  }
+
+  public keyDown(key: string): void {
+    this.emit({ type: "keydown", key });
+  }
+
+  public keyUp(key: string): void {
+    this.emit({ type: "keyup", key });
+  }
+
+  // Press a button, move by (dx, dy) pixels and release
+  public drag(
+    dx: number,
+    dy: number,
+    button: PointerButton = PointerButton.PRIMARY
+  ): void {
+    this.emit({ type: "pointerdown", button });
+    this.emit({ type: "pointermove", dx, dy });
+    this.emit({ type: "pointerup", button });
+  }
+
+  public wheel(delta: number): void {
+    this.emit({ type: "wheel", delta });
+  }
+}
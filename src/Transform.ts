@@ -1,21 +1,49 @@
+import { Mat4 } from "./Mat4";
+import { Quaternion } from "./Quaternion";
+
 // Transform class representing position, rotation, and scale in 3D space
 export class Transform {
   public position: { x: number; y: number; z: number };
   public rotation: { x: number; y: number; z: number }; // Euler angles in degrees
   public scale: { x: number; y: number; z: number };
+  public rotationQuaternion: Quaternion | null; // Overrides the Euler angles when set
 
   constructor(
     position = { x: 0, y: 0, z: 0 },
     rotation = { x: 0, y: 0, z: 0 },
-    scale = { x: 1, y: 1, z: 1 }
+    scale = { x: 1, y: 1, z: 1 },
+    rotationQuaternion: Quaternion | null = null
   ) {
     this.position = position;
     this.rotation = rotation;
     this.scale = scale;
+    this.rotationQuaternion = rotationQuaternion;
   }
 
   // Create a transform with just position (common case)
   public static fromPosition(x: number, y: number, z: number): Transform {
     return new Transform({ x, y, z });
   }
+
+  // Rotation as a quaternion (Euler angles applied X → Y → Z)
+  public getRotationQuaternion(): Quaternion {
+    return (
+      this.rotationQuaternion ??
+      Quaternion.fromEuler(
+        this.rotation.x,
+        this.rotation.y,
+        this.rotation.z,
+        "ZYX"
+      )
+    );
+  }
+
+  // Matrix applying scale → rotate → translate
+  public toMatrix(): Mat4 {
+    return Mat4.compose(
+      this.position,
+      this.getRotationQuaternion(),
+      this.scale
+    );
+  }
 }
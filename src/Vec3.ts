@@ -0,0 +1,91 @@
+import { Point3D } from "./Point3D";
+
+// Vec3 class: immutable 3D vector with the usual linear algebra helpers
+// Every operation returns a new Vec3, so instances can be shared safely
+export class Vec3 {
+  public readonly x: number;
+  public readonly y: number;
+  public readonly z: number;
+
+  constructor(x: number = 0, y: number = 0, z: number = 0) {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+  }
+
+  // Create from any {x, y, z} shaped object (Point3D, position objects, ...)
+  public static from(v: { x: number; y: number; z: number }): Vec3 {
+    return new Vec3(v.x, v.y, v.z);
+  }
+
+  public static zero(): Vec3 {
+    return new Vec3(0, 0, 0);
+  }
+
+  public add(v: Vec3): Vec3 {
+    return new Vec3(this.x + v.x, this.y + v.y, this.z + v.z);
+  }
+
+  public subtract(v: Vec3): Vec3 {
+    return new Vec3(this.x - v.x, this.y - v.y, this.z - v.z);
+  }
+
+  public scale(s: number): Vec3 {
+    return new Vec3(this.x * s, this.y * s, this.z * s);
+  }
+
+  public negate(): Vec3 {
+    return new Vec3(-this.x, -this.y, -this.z);
+  }
+
+  public dot(v: Vec3): number {
+    return this.x * v.x + this.y * v.y + this.z * v.z;
+  }
+
+  public cross(v: Vec3): Vec3 {
+    return new Vec3(
+      this.y * v.z - this.z * v.y,
+      this.z * v.x - this.x * v.z,
+      this.x * v.y - this.y * v.x
+    );
+  }
+
+  public lengthSquared(): number {
+    return this.dot(this);
+  }
+
+  public length(): number {
+    return Math.sqrt(this.lengthSquared());
+  }
+
+  public distanceTo(v: Vec3): number {
+    return this.subtract(v).length();
+  }
+
+  // Unit vector in the same direction (zero vector stays zero)
+  public normalize(): Vec3 {
+    const length = this.length();
+    return length === 0 ? new Vec3(0, 0, 0) : this.scale(1 / length);
+  }
+
+  // Linear interpolation towards v (t = 0 → this, t = 1 → v)
+  public lerp(v: Vec3, t: number): Vec3 {
+    return new Vec3(
+      this.x + (v.x - this.x) * t,
+      this.y + (v.y - this.y) * t,
+      this.z + (v.z - this.z) * t
+    );
+  }
+
+  public equals(v: Vec3, epsilon: number = 1e-9): boolean {
+    return (
+      Math.abs(this.x - v.x) <= epsilon &&
+      Math.abs(this.y - v.y) <= epsilon &&
+      Math.abs(this.z - v.z) <= epsilon
+    );
+  }
+
+  public toPoint3D(): Point3D {
+    return new Point3D(this.x, this.y, this.z);
+  }
+}
@@ -1,35 +1,315 @@
 import { SceneObject } from "./SceneObject";
+import { Camera } from "./Camera";
+import { Vec3 } from "./Vec3";
+import { Ray } from "./Ray";
+import { Frustum } from "./Frustum";
+import { BoundingBox } from "./BoundingBox";
+import { SpatialIndex, SpatialIndexOptions } from "./SpatialIndex";
 
-// World class manages a collection of SceneObjects
+export enum WorldEventType {
+  ADDED = "ADDED", // Object (and, one event each, its descendants) entered the world
+  REMOVED = "REMOVED", // Object (and its descendants) left the world
+  TRANSFORMED = "TRANSFORMED", // Local transform changed or it moved to another parent
+}
+
+export interface WorldEvent {
+  type: WorldEventType;
+  object: SceneObject;
+}
+
+export type WorldListener = (event: WorldEvent) => void;
+
+// World class manages a hierarchy of SceneObjects
+// Only root objects are stored; children are reached through their parents
+// An optional spatial index speeds up culling and queries in large scenes;
+// the query methods give the same results with or without it
+// Listeners are told about objects added, removed or transformed. Hierarchy
+// changes are reported when made through addObject, removeObject, reparent
+// and clear; transform changes when made through the SceneObject setters
 export class World {
   private _objects: SceneObject[];
+  private _spatialIndex: SpatialIndex | null;
+  private _listeners: WorldListener[];
+  private _unsubscribers: Map<SceneObject, () => void>; // Per stored root
 
   constructor() {
     this._objects = [];
+    this._spatialIndex = null;
+    this._listeners = [];
+    this._unsubscribers = new Map();
   }
 
-  // Add a scene object to the world
+  // Add a scene object to the world as a root (detaching it from any parent)
   public addObject(sceneObject: SceneObject): void {
-    this._objects.push(sceneObject);
+    const wasInWorld = this.contains(sceneObject);
+    const wasRoot = sceneObject.getParent() === null;
+    sceneObject.removeFromParent();
+    if (!this._objects.includes(sceneObject)) {
+      this._objects.push(sceneObject);
+      this.track(sceneObject);
+    }
+
+    if (!wasInWorld) {
+      this.emitSubtree(WorldEventType.ADDED, sceneObject);
+    } else if (!wasRoot) {
+      this.emit(WorldEventType.TRANSFORMED, sceneObject);
+    }
   }
 
-  // Remove a scene object from the world
+  // Remove a scene object (and its subtree) from the world
   public removeObject(sceneObject: SceneObject): void {
-    this._objects = this._objects.filter((obj) => obj !== sceneObject);
+    const wasInWorld = this.contains(sceneObject);
+    sceneObject.removeFromParent();
+    this.untrack(sceneObject);
+
+    if (wasInWorld) {
+      this.emitSubtree(WorldEventType.REMOVED, sceneObject);
+    }
+  }
+
+  // Move a scene object under a new parent (null makes it a root object)
+  public reparent(sceneObject: SceneObject, parent: SceneObject | null): void {
+    if (parent === null) {
+      this.addObject(sceneObject);
+      return;
+    }
+
+    const wasInWorld = this.contains(sceneObject);
+    parent.addChild(sceneObject);
+    this.untrack(sceneObject);
+
+    const isInWorld = this.contains(sceneObject);
+    if (wasInWorld && isInWorld) {
+      this.emit(WorldEventType.TRANSFORMED, sceneObject);
+    } else if (wasInWorld) {
+      this.emitSubtree(WorldEventType.REMOVED, sceneObject);
+    } else if (isInWorld) {
+      this.emitSubtree(WorldEventType.ADDED, sceneObject);
+    }
+  }
+
+  // True if the object is in the world (as a root or below one)
+  public contains(sceneObject: SceneObject): boolean {
+    let root = sceneObject;
+    let parent = root.getParent();
+    while (parent !== null) {
+      root = parent;
+      parent = root.getParent();
+    }
+    return this._objects.includes(root);
+  }
+
+  // Get the top-level objects of the hierarchy
+  // Roots that were attached to a parent directly via addChild are skipped
+  public getRootObjects(): SceneObject[] {
+    return this._objects.filter((obj) => obj.getParent() === null);
   }
 
-  // Get all objects in the world
+  // Depth-first traversal over every object in the world (parents before children)
+  public traverse(callback: (sceneObject: SceneObject) => void): void {
+    for (const root of this.getRootObjects()) {
+      root.traverse(callback);
+    }
+  }
+
+  // Get all objects in the world (flattened hierarchy, parents before children)
   public getObjects(): SceneObject[] {
-    return this._objects;
+    const objects: SceneObject[] = [];
+    this.traverse((sceneObject) => objects.push(sceneObject));
+    return objects;
+  }
+
+  // First object (parents before children) with the given id, or null
+  public getObjectById(id: string): SceneObject | null {
+    return this.findObject((sceneObject) => sceneObject.getId() === id);
+  }
+
+  // First object with the given name, or null (names need not be unique)
+  public getObjectByName(name: string): SceneObject | null {
+    return this.findObject((sceneObject) => sceneObject.name === name);
+  }
+
+  public getObjectsByName(name: string): SceneObject[] {
+    return this.findObjects((sceneObject) => sceneObject.name === name);
+  }
+
+  public getObjectsByTag(tag: string): SceneObject[] {
+    return this.findObjects((sceneObject) => sceneObject.hasTag(tag));
+  }
+
+  // First object matching the predicate, or null
+  public findObject(
+    predicate: (sceneObject: SceneObject) => boolean
+  ): SceneObject | null {
+    return this.getObjects().find(predicate) ?? null;
+  }
+
+  // Every object matching the predicate (parents before children)
+  public findObjects(
+    predicate: (sceneObject: SceneObject) => boolean
+  ): SceneObject[] {
+    return this.getObjects().filter(predicate);
   }
 
   // Clear all objects from the world
   public clear(): void {
+    const objects = this.getObjects();
+    for (const unsubscribe of this._unsubscribers.values()) {
+      unsubscribe();
+    }
+    this._unsubscribers.clear();
     this._objects = [];
+    this._spatialIndex?.clear();
+
+    for (const sceneObject of objects) {
+      this.emit(WorldEventType.REMOVED, sceneObject);
+    }
+  }
+
+  // Listen for objects being added, removed or transformed
+  // Returns a function that removes the listener
+  public subscribe(listener: WorldListener): () => void {
+    this._listeners.push(listener);
+    return () => {
+      this._listeners = this._listeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Index every object in a bounding volume hierarchy (see SpatialIndex)
+  public enableSpatialIndex(options: SpatialIndexOptions = {}): void {
+    this._spatialIndex = new SpatialIndex(options);
+    this._spatialIndex.sync(this.getRootObjects());
+  }
+
+  public disableSpatialIndex(): void {
+    this._spatialIndex = null;
+  }
+
+  public hasSpatialIndex(): boolean {
+    return this._spatialIndex !== null;
+  }
+
+  public getSpatialIndex(): SpatialIndex | null {
+    return this._spatialIndex;
+  }
+
+  // Pick up added, removed and moved objects
+  // Only needed when the index was created with autoUpdate: false
+  public updateSpatialIndex(): void {
+    this._spatialIndex?.sync(this.getRootObjects());
+  }
+
+  // Objects whose bounding sphere is at least partly in the camera's view
+  public queryFrustum(camera: Camera): SceneObject[] {
+    const frustum = Frustum.fromCamera(camera);
+    const index = this.getUpdatedSpatialIndex();
+    if (index) {
+      return index.queryFrustum(frustum);
+    }
+    return this.getObjects().filter((sceneObject) =>
+      frustum.intersectsSphere(
+        sceneObject.getWorldMatrix().getTranslation(),
+        sceneObject.getWorldBoundingRadius()
+      )
+    );
+  }
+
+  // Objects whose bounding sphere the ray passes through within maxDistance
+  // (candidates for exact tests such as raycastSceneObject)
+  public queryRay(ray: Ray, maxDistance: number = Infinity): SceneObject[] {
+    const index = this.getUpdatedSpatialIndex();
+    if (index) {
+      return index.queryRay(ray, maxDistance);
+    }
+    return this.getObjects().filter((sceneObject) => {
+      const center = sceneObject.getWorldMatrix().getTranslation();
+      const radius = sceneObject.getWorldBoundingRadius();
+      return (
+        ray.intersectsSphere(center, radius) &&
+        center.distanceTo(ray.origin) - radius <= maxDistance
+      );
+    });
+  }
+
+  // Objects whose bounding sphere overlaps the sphere around center
+  public querySphere(
+    center: { x: number; y: number; z: number },
+    radius: number
+  ): SceneObject[] {
+    const index = this.getUpdatedSpatialIndex();
+    if (index) {
+      return index.querySphere(center, radius);
+    }
+    return this.getObjects().filter((sceneObject) => {
+      const position = sceneObject.getWorldMatrix().getTranslation();
+      return (
+        Math.hypot(
+          position.x - center.x,
+          position.y - center.y,
+          position.z - center.z
+        ) <=
+        radius + sceneObject.getWorldBoundingRadius()
+      );
+    });
+  }
+
+  // Objects whose bounding sphere overlaps the axis-aligned box min..max
+  public queryBox(
+    min: { x: number; y: number; z: number },
+    max: { x: number; y: number; z: number }
+  ): SceneObject[] {
+    const box = new BoundingBox(Vec3.from(min), Vec3.from(max));
+    const index = this.getUpdatedSpatialIndex();
+    if (index) {
+      return index.queryBox(box);
+    }
+    return this.getObjects().filter((sceneObject) =>
+      box.intersectsSphere(
+        sceneObject.getWorldMatrix().getTranslation(),
+        sceneObject.getWorldBoundingRadius()
+      )
+    );
+  }
+
+  // The spatial index, synced first if it updates automatically
+  private getUpdatedSpatialIndex(): SpatialIndex | null {
+    if (this._spatialIndex?.autoUpdate) {
+      this._spatialIndex.sync(this.getRootObjects());
+    }
+    return this._spatialIndex;
+  }
+
+  // Forward transform changes below a stored root while it is a root
+  // (a stored root attached elsewhere with addChild isn't part of the world)
+  private track(root: SceneObject): void {
+    const unsubscribe = root.subscribe((sceneObject) => {
+      if (root.getParent() === null) {
+        this.emit(WorldEventType.TRANSFORMED, sceneObject);
+      }
+    });
+    this._unsubscribers.set(root, unsubscribe);
+  }
+
+  // Forget a stored root
+  private untrack(sceneObject: SceneObject): void {
+    this._objects = this._objects.filter((obj) => obj !== sceneObject);
+    this._unsubscribers.get(sceneObject)?.();
+    this._unsubscribers.delete(sceneObject);
+  }
+
+  private emit(type: WorldEventType, sceneObject: SceneObject): void {
+    for (const listener of this._listeners) {
+      listener({ type, object: sceneObject });
+    }
+  }
+
+  // One event per object in the subtree (parents before children)
+  private emitSubtree(type: WorldEventType, sceneObject: SceneObject): void {
+    sceneObject.traverse((obj) => this.emit(type, obj));
   }
 
-  // Get number of objects in the world
+  // Get number of objects in the world (including children)
   public get objectCount(): number {
-    return this._objects.length;
+    return this.getObjects().length;
   }
 }
@@ -0,0 +1,196 @@
+import { Point3D } from "./Point3D";
+import { Point2D } from "./Point2D";
+
+/**
+ * Clipping Utilities
+ *
+ * Parametric (Liang-Barsky style) line clipping and Sutherland-Hodgman
+ * polygon clipping used between the camera-space and screen-space stages
+ * of the pipeline.
+ * Each function returns the original point instances for points that
+ * did not need clipping, so callers can reuse cached projections.
+ */
+
+// Clip a camera-space line segment against the near and far planes
+// Returns null when the segment lies entirely outside [near, far] on the Z axis
+export function clipLineToDepthRange(
+  start: Point3D,
+  end: Point3D,
+  near: number,
+  far: number
+): [Point3D, Point3D] | null {
+  const dz = end.z - start.z;
+  let tEnter = 0;
+  let tExit = 1;
+
+  // Near plane: z >= near
+  if (dz === 0) {
+    if (start.z < near) {
+      return null;
+    }
+  } else {
+    const t = (near - start.z) / dz;
+    if (dz > 0) {
+      tEnter = Math.max(tEnter, t); // Entering the visible side
+    } else {
+      tExit = Math.min(tExit, t); // Leaving the visible side
+    }
+  }
+
+  // Far plane: z <= far
+  if (dz === 0) {
+    if (start.z > far) {
+      return null;
+    }
+  } else {
+    const t = (far - start.z) / dz;
+    if (dz > 0) {
+      tExit = Math.min(tExit, t);
+    } else {
+      tEnter = Math.max(tEnter, t);
+    }
+  }
+
+  if (tEnter > tExit) {
+    return null; // Segment is completely in front of near or beyond far
+  }
+
+  return [
+    tEnter > 0 ? interpolatePoint3D(start, end, tEnter) : start,
+    tExit < 1 ? interpolatePoint3D(start, end, tExit) : end,
+  ];
+}
+
+// Clip a screen-space line segment to an axis-aligned rectangle
+// Returns null when the segment does not intersect the rectangle
+export function clipLineToRect(
+  start: Point2D,
+  end: Point2D,
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number
+): [Point2D, Point2D] | null {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  let tEnter = 0;
+  let tExit = 1;
+
+  // Each boundary is expressed as p * t <= q
+  const p = [-dx, dx, -dy, dy];
+  const q = [start.x - minX, maxX - start.x, start.y - minY, maxY - start.y];
+
+  for (let i = 0; i < 4; i++) {
+    if (p[i] === 0) {
+      // Parallel to this boundary: reject if outside of it
+      if (q[i] < 0) {
+        return null;
+      }
+      continue;
+    }
+
+    const t = q[i] / p[i];
+    if (p[i] < 0) {
+      tEnter = Math.max(tEnter, t);
+    } else {
+      tExit = Math.min(tExit, t);
+    }
+
+    if (tEnter > tExit) {
+      return null;
+    }
+  }
+
+  return [
+    tEnter > 0
+      ? new Point2D(start.x + dx * tEnter, start.y + dy * tEnter)
+      : start,
+    tExit < 1 ? new Point2D(start.x + dx * tExit, start.y + dy * tExit) : end,
+  ];
+}
+
+// Linear interpolation between two 2D points
+function interpolatePoint2D(a: Point2D, b: Point2D, t: number): Point2D {
+  return new Point2D(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t);
+}
+
+// Linear interpolation between two 3D points
+function interpolatePoint3D(a: Point3D, b: Point3D, t: number): Point3D {
+  return new Point3D(
+    a.x + (b.x - a.x) * t,
+    a.y + (b.y - a.y) * t,
+    a.z + (b.z - a.z) * t
+  );
+}
+
+// Clip a camera-space polygon (vertex ring) against the near and far planes
+// Sutherland-Hodgman: the result is the visible part of the polygon, with new
+// vertices where edges cross a plane. Returns an empty array if nothing is left
+export function clipPolygonToDepthRange(
+  points: Point3D[],
+  near: number,
+  far: number
+): Point3D[] {
+  const clippedNear = clipPolygonAgainstPlane(
+    points,
+    (p) => p.z - near,
+    interpolatePoint3D
+  );
+  return clipPolygonAgainstPlane(
+    clippedNear,
+    (p) => far - p.z,
+    interpolatePoint3D
+  );
+}
+
+// Clip a screen-space polygon to a rectangle (Sutherland-Hodgman)
+// Returns an empty array when the polygon lies entirely outside
+export function clipPolygonToRect(
+  points: Point2D[],
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number
+): Point2D[] {
+  const sides: ((p: Point2D) => number)[] = [
+    (p) => p.x - minX,
+    (p) => maxX - p.x,
+    (p) => p.y - minY,
+    (p) => maxY - p.y,
+  ];
+
+  return sides.reduce(
+    (clipped, signedDistance) =>
+      clipPolygonAgainstPlane(clipped, signedDistance, interpolatePoint2D),
+    points
+  );
+}
+
+// Keep the part of a polygon where signedDistance(p) >= 0
+function clipPolygonAgainstPlane<T>(
+  points: T[],
+  signedDistance: (p: T) => number,
+  interpolate: (a: T, b: T, t: number) => T
+): T[] {
+  const result: T[] = [];
+  const n = points.length;
+
+  for (let i = 0; i < n; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % n];
+    const currentDistance = signedDistance(current);
+    const nextDistance = signedDistance(next);
+
+    if (currentDistance >= 0) {
+      result.push(current);
+    }
+
+    // Edge crosses the plane: add the intersection point
+    if (currentDistance >= 0 !== nextDistance >= 0) {
+      const t = currentDistance / (currentDistance - nextDistance);
+      result.push(interpolate(current, next, t));
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,153 @@
+import { CSS_NAMED_COLORS } from "./css-named-colors";
+
+/**
+ * Color Utilities
+ *
+ * Parsing and formatting of CSS color strings as used by Polygon3D.color,
+ * plus the brightness scaling used for flat shading.
+ * Supported inputs: named colors ("red", "transparent"), #rgb, #rgba,
+ * #rrggbb, #rrggbbaa, rgb()/rgba() and hsl()/hsla() with comma or space
+ * separated arguments. Alpha is ignored ("transparent" is black).
+ */
+
+const HEX_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+// Name and three arguments, then an optional alpha after "," or "/"
+const FUNCTION_PATTERN =
+  /^(rgba?|hsla?)\(\s*([^\s,/]+)\s*[\s,]\s*([^\s,/]+)\s*[\s,]\s*([^\s,/)]+)\s*(?:[,/]\s*[^\s,/)]+\s*)?\)$/i;
+// Degrees per hue unit
+const HUE_UNITS: [string, number][] = [
+  ["grad", 0.9],
+  ["rad", 180 / Math.PI],
+  ["turn", 360],
+  ["deg", 1],
+];
+// Used by shadeColor for colors it can't parse (the render targets' default)
+const FALLBACK_COLOR: RGBColor = { r: 255, g: 255, b: 255 };
+
+// Color channels in 0-255
+export interface RGBColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Parse a CSS color string; throws for unsupported formats
+export function parseColor(color: string): RGBColor {
+  const value = color.trim().toLowerCase();
+  if (value === "transparent") {
+    return { r: 0, g: 0, b: 0 };
+  }
+  const named = Object.prototype.hasOwnProperty.call(CSS_NAMED_COLORS, value)
+    ? CSS_NAMED_COLORS[value]
+    : value;
+
+  const hex = HEX_PATTERN.exec(named);
+  if (hex) {
+    const digits =
+      hex[1].length <= 4
+        ? hex[1]
+            .split("")
+            .map((digit) => digit + digit)
+            .join("")
+        : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+    };
+  }
+
+  const functional = FUNCTION_PATTERN.exec(value);
+  if (functional) {
+    const [, name, first, second, third] = functional;
+    const rgb = name.startsWith("rgb")
+      ? {
+          r: parseChannel(first),
+          g: parseChannel(second),
+          b: parseChannel(third),
+        }
+      : hslToRgb(parseHue(first), parsePercent(second), parsePercent(third));
+    if ([rgb.r, rgb.g, rgb.b].every(Number.isFinite)) {
+      return {
+        r: clampChannel(rgb.r),
+        g: clampChannel(rgb.g),
+        b: clampChannel(rgb.b),
+      };
+    }
+  }
+
+  throw new Error(`Unsupported color format: '${color}'`);
+}
+
+// Format as a #rrggbb string; throws for NaN or infinite channels
+export function formatColor(color: RGBColor): string {
+  if (![color.r, color.g, color.b].every(Number.isFinite)) {
+    throw new Error(
+      `Invalid color channels: (${color.r}, ${color.g}, ${color.b})`
+    );
+  }
+  const toHex = (channel: number) =>
+    clampChannel(channel).toString(16).padStart(2, "0");
+  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+}
+
+// Scale a color's brightness (0 = black, 1 = unchanged)
+// Runs for every filled polygon, so it never throws: an unparseable color is
+// shaded as FALLBACK_COLOR and a non-finite intensity leaves it unshaded
+export function shadeColor(color: string, intensity: number): string {
+  let rgb: RGBColor;
+  try {
+    rgb = parseColor(color);
+  } catch {
+    rgb = FALLBACK_COLOR;
+  }
+  const scale = Number.isFinite(intensity) ? intensity : 1;
+  return formatColor({ r: rgb.r * scale, g: rgb.g * scale, b: rgb.b * scale });
+}
+
+// rgb() argument: 0-255 or a percentage (NaN if malformed)
+function parseChannel(text: string): number {
+  return text.endsWith("%")
+    ? (Number(text.slice(0, -1)) * 255) / 100
+    : Number(text);
+}
+
+// hsl() saturation/lightness as 0-1 (the % sign is optional)
+function parsePercent(text: string): number {
+  const percent = Number(text.endsWith("%") ? text.slice(0, -1) : text);
+  return Math.min(1, Math.max(0, percent / 100));
+}
+
+// Hue in degrees from a number with an optional deg/grad/rad/turn unit
+function parseHue(text: string): number {
+  // "grad" before "rad", which it ends with
+  for (const [unit, degrees] of HUE_UNITS) {
+    if (text.endsWith(unit)) {
+      return Number(text.slice(0, -unit.length)) * degrees;
+    }
+  }
+  return Number(text);
+}
+
+// CSS Color 4 hsl → rgb conversion, channels in 0-255
+function hslToRgb(
+  hue: number,
+  saturation: number,
+  lightness: number
+): RGBColor {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number): number => {
+    const k = (n + hue / 30) % 12;
+    const kWrapped = k < 0 ? k + 12 : k;
+    return (
+      255 *
+      (lightness - a * Math.max(-1, Math.min(kWrapped - 3, 9 - kWrapped, 1)))
+    );
+  };
+  return { r: channel(0), g: channel(8), b: channel(4) };
+}
+
+// Round and clamp to a valid 0-255 channel value
+function clampChannel(value: number): number {
+  return Math.min(255, Math.max(0, Math.round(value)));
+}
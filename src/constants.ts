@@ -1,13 +1,13 @@
-// Screen and projection constants
+// Default screen size (canvas and camera viewport)
 export const SCREEN_WIDTH = 960;
 export const SCREEN_HEIGHT = 600;
-export const ASPECT_RATIO = SCREEN_WIDTH / SCREEN_HEIGHT;
 
-// Pre-calculated screen center coordinates
-export const HALF_SCREEN_WIDTH = SCREEN_WIDTH / 2;
-export const HALF_SCREEN_HEIGHT = SCREEN_HEIGHT / 2;
+// Default perspective projection settings (each Camera owns its own copy)
+export const DEFAULT_FOV = 60; // Field of view in degrees (60° is natural, 90° causes fish-eye distortion)
 
-// Perspective projection constants
-export const FOV = 60; // Field of view in degrees (60° is natural, 90° causes fish-eye distortion)
-export const FOV_RAD = (FOV * Math.PI) / 180; // Pre-calculated radians
-export const FOCAL_LENGTH = 1 / Math.tan(FOV_RAD / 2); // Pre-calculated focal length
\ No newline at end of file
+// Default orthographic projection settings
+export const DEFAULT_ORTHO_SIZE = 5; // Half of the visible height in world units
+
+// Default clipping plane distances (camera space Z)
+export const DEFAULT_NEAR_PLANE = 0.1; // Minimum Z distance
+export const DEFAULT_FAR_PLANE = 1000; // Maximum Z distance
@@ -0,0 +1,351 @@
+import { Point3D } from "./Point3D";
+import { Point2D } from "./Point2D";
+import { Vec3 } from "./Vec3";
+
+/**
+ * Parametric Curves
+ *
+ * Polylines, cubic Bézier splines, Catmull-Rom splines and rational
+ * B-splines (NURBS with optional weights and knots), all evaluated over
+ * t ∈ [0, 1]. Curves are turned into points either uniformly or adaptively,
+ * subdividing until the projected curve is within a pixel tolerance of its
+ * chords (see CurveObject for per-frame tessellation).
+ */
+
+type PointLike = { x: number; y: number; z: number };
+
+export interface Curve3D {
+  evaluate(t: number): Point3D; // t in [0, 1]
+  // Parameters always sampled, sorted from 0 to 1: joins between spans,
+  // where the curve may have corners
+  readonly breakpoints: number[];
+  readonly closed: boolean; // evaluate(1) equals evaluate(0)
+}
+
+export interface CatmullRomOptions {
+  closed?: boolean; // Connect the last point back to the first (default false)
+  // Knot parametrization: 0 = uniform, 0.5 = centripetal (default, no cusps
+  // or self-intersections within a span), 1 = chordal
+  alpha?: number;
+}
+
+export interface NURBSOptions {
+  degree?: number; // Default 3 (lowered for fewer control points)
+  weights?: number[]; // One per control point (default 1 = plain B-spline)
+  knots?: number[]; // controlPoints + degree + 1 values (default clamped uniform)
+}
+
+export interface TessellationOptions {
+  tolerance?: number; // Maximum screen-space deviation in pixels (default 0.5)
+  maxDepth?: number; // Maximum subdivision levels per span (default 8)
+}
+
+// Every span is split this many times before the error test: a midpoint
+// test alone misses S-shaped spans whose midpoint lies on the chord
+const MIN_SPAN_SUBDIVISIONS = 2;
+
+// Straight segments through the points
+export function createPolylineCurve(
+  points: PointLike[],
+  closed: boolean = false
+): Curve3D {
+  requirePoints(points, 2, "Polyline");
+  const vectors = points.map((p) => Vec3.from(p));
+  const spanCount = closed ? vectors.length : vectors.length - 1;
+
+  return {
+    closed,
+    breakpoints: createUniformBreakpoints(spanCount),
+    evaluate: (t) => {
+      const [span, local] = locateSpan(t, spanCount);
+      const start = vectors[span];
+      const end = vectors[(span + 1) % vectors.length];
+      return start.lerp(end, local).toPoint3D();
+    },
+  };
+}
+
+// Piecewise cubic Bézier: points are [anchor, control, control, anchor,
+// control, control, anchor, ...], so 3n + 1 points give n spans
+export function createBezierCurve(points: PointLike[]): Curve3D {
+  requirePoints(points, 4, "Bézier curve");
+  if ((points.length - 1) % 3 !== 0) {
+    throw new Error(
+      `Bézier curve needs 3n + 1 points (anchors and control pairs), got ${points.length}`
+    );
+  }
+  const vectors = points.map((p) => Vec3.from(p));
+  const spanCount = (vectors.length - 1) / 3;
+
+  return {
+    closed: vectors[0].equals(vectors[vectors.length - 1]),
+    breakpoints: createUniformBreakpoints(spanCount),
+    evaluate: (t) => {
+      const [span, local] = locateSpan(t, spanCount);
+      const [p0, p1, p2, p3] = vectors.slice(span * 3, span * 3 + 4);
+
+      // de Casteljau: repeated linear interpolation
+      const a = p0.lerp(p1, local);
+      const b = p1.lerp(p2, local);
+      const c = p2.lerp(p3, local);
+      const d = a.lerp(b, local);
+      const e = b.lerp(c, local);
+      return d.lerp(e, local).toPoint3D();
+    },
+  };
+}
+
+// Catmull-Rom spline passing through every point
+// Open curves extrapolate a virtual point beyond each end
+export function createCatmullRomCurve(
+  points: PointLike[],
+  options: CatmullRomOptions = {}
+): Curve3D {
+  requirePoints(points, 2, "Catmull-Rom curve");
+  const closed = options.closed ?? false;
+  const alpha = options.alpha ?? 0.5;
+  const vectors = points.map((p) => Vec3.from(p));
+  const n = vectors.length;
+  const spanCount = closed ? n : n - 1;
+
+  const pointAt = (i: number): Vec3 => {
+    if (closed) {
+      return vectors[((i % n) + n) % n];
+    }
+    if (i < 0) {
+      return vectors[0].scale(2).subtract(vectors[1]);
+    }
+    if (i >= n) {
+      return vectors[n - 1].scale(2).subtract(vectors[n - 2]);
+    }
+    return vectors[i];
+  };
+
+  return {
+    closed,
+    breakpoints: createUniformBreakpoints(spanCount),
+    evaluate: (t) => {
+      const [span, local] = locateSpan(t, spanCount);
+      const p0 = pointAt(span - 1);
+      const p1 = pointAt(span);
+      const p2 = pointAt(span + 1);
+      const p3 = pointAt(span + 2);
+
+      // Knot spacing |Δp|^alpha (tiny minimum for repeated points)
+      const spacing = (a: Vec3, b: Vec3) =>
+        Math.max(Math.pow(a.distanceTo(b), alpha), 1e-9);
+      const t0 = 0;
+      const t1 = t0 + spacing(p0, p1);
+      const t2 = t1 + spacing(p1, p2);
+      const t3 = t2 + spacing(p2, p3);
+      const u = t1 + (t2 - t1) * local;
+
+      // Barry-Goldman pyramid
+      const blend = (a: Vec3, b: Vec3, ta: number, tb: number) =>
+        a.lerp(b, (u - ta) / (tb - ta));
+      const a1 = blend(p0, p1, t0, t1);
+      const a2 = blend(p1, p2, t1, t2);
+      const a3 = blend(p2, p3, t2, t3);
+      const b1 = blend(a1, a2, t0, t2);
+      const b2 = blend(a2, a3, t1, t3);
+      return blend(b1, b2, t1, t2).toPoint3D();
+    },
+  };
+}
+
+// Rational B-spline ("NURBS-lite": evaluation only, no knot insertion)
+// With default weights and knots it's a clamped uniform B-spline that
+// starts at the first and ends at the last control point
+export function createNURBSCurve(
+  controlPoints: PointLike[],
+  options: NURBSOptions = {}
+): Curve3D {
+  requirePoints(controlPoints, 2, "NURBS curve");
+  const n = controlPoints.length;
+  const degree = Math.min(options.degree ?? 3, n - 1);
+  const weights = options.weights ?? controlPoints.map(() => 1);
+  const knots = options.knots ?? createClampedKnots(n, degree);
+
+  if (!Number.isInteger(degree) || degree < 1) {
+    throw new Error(`NURBS degree must be an integer >= 1, got ${degree}`);
+  }
+  if (weights.length !== n || weights.some((w) => !(w > 0))) {
+    throw new Error(`NURBS curve needs ${n} positive weights`);
+  }
+  if (
+    knots.length !== n + degree + 1 ||
+    knots.some((k, i) => i > 0 && k < knots[i - 1])
+  ) {
+    throw new Error(
+      `NURBS curve needs ${n + degree + 1} non-decreasing knots, got ${
+        knots.length
+      }`
+    );
+  }
+
+  // Homogeneous control points: (w·x, w·y, w·z, w)
+  const homogeneous = controlPoints.map((p, i) => [
+    p.x * weights[i],
+    p.y * weights[i],
+    p.z * weights[i],
+    weights[i],
+  ]);
+  const start = knots[degree];
+  const end = knots[n];
+  if (!(end > start)) {
+    throw new Error("NURBS knots leave an empty parameter range");
+  }
+
+  const breakpoints = Array.from(
+    new Set(knots.slice(degree, n + 1).map((k) => (k - start) / (end - start)))
+  );
+
+  return {
+    closed: Vec3.from(controlPoints[0]).equals(Vec3.from(controlPoints[n - 1])),
+    breakpoints,
+    evaluate: (t) => {
+      const u = start + Math.min(1, Math.max(0, t)) * (end - start);
+
+      // Knot span containing u (the last non-empty span for u = end)
+      let span = degree;
+      while (span < n - 1 && u >= knots[span + 1]) {
+        span++;
+      }
+
+      // de Boor's algorithm on homogeneous coordinates
+      const d = Array.from({ length: degree + 1 }, (_, j) => [
+        ...homogeneous[j + span - degree],
+      ]);
+      for (let r = 1; r <= degree; r++) {
+        for (let j = degree; j >= r; j--) {
+          const left = knots[j + span - degree];
+          const right = knots[j + 1 + span - r];
+          const a = right > left ? (u - left) / (right - left) : 0;
+          d[j] = d[j].map((value, k) => (1 - a) * d[j - 1][k] + a * value);
+        }
+      }
+
+      const [x, y, z, w] = d[degree];
+      return new Point3D(x / w, y / w, z / w);
+    },
+  };
+}
+
+// Points at segmentsPerSpan uniform steps within every span
+// The last point equals the first for closed curves
+export function sampleCurve(
+  curve: Curve3D,
+  segmentsPerSpan: number = 16
+): Point3D[] {
+  const { breakpoints } = curve;
+  const points = [curve.evaluate(breakpoints[0])];
+  for (let span = 0; span < breakpoints.length - 1; span++) {
+    const t0 = breakpoints[span];
+    const t1 = breakpoints[span + 1];
+    for (let i = 1; i <= segmentsPerSpan; i++) {
+      points.push(curve.evaluate(t0 + ((t1 - t0) * i) / segmentsPerSpan));
+    }
+  }
+  return points;
+}
+
+// Adaptive tessellation: spans are split until the projected midpoint of
+// each piece lies within tolerance pixels of its projected chord
+// project maps a curve point to screen space (model → screen)
+export function tessellateCurve(
+  curve: Curve3D,
+  project: (point: Point3D) => Point2D,
+  options: TessellationOptions = {}
+): Point3D[] {
+  const tolerance = options.tolerance ?? 0.5;
+  const maxDepth = options.maxDepth ?? 8;
+  const { breakpoints } = curve;
+
+  const first = curve.evaluate(breakpoints[0]);
+  const points = [first];
+
+  // Append the points after start up to and including end
+  const subdivide = (
+    t0: number,
+    t1: number,
+    screen0: Point2D,
+    end: Point3D,
+    screen1: Point2D,
+    depth: number
+  ): void => {
+    const tm = (t0 + t1) / 2;
+    const middle = curve.evaluate(tm);
+    const screenMiddle = project(middle);
+
+    if (
+      depth < MIN_SPAN_SUBDIVISIONS ||
+      (depth < maxDepth &&
+        distanceToSegment(screenMiddle, screen0, screen1) > tolerance)
+    ) {
+      subdivide(t0, tm, screen0, middle, screenMiddle, depth + 1);
+      subdivide(tm, t1, screenMiddle, end, screen1, depth + 1);
+    } else {
+      points.push(end);
+    }
+  };
+
+  let screenStart = project(first);
+  for (let span = 0; span < breakpoints.length - 1; span++) {
+    const end = curve.evaluate(breakpoints[span + 1]);
+    const screenEnd = project(end);
+    subdivide(
+      breakpoints[span],
+      breakpoints[span + 1],
+      screenStart,
+      end,
+      screenEnd,
+      0
+    );
+    screenStart = screenEnd;
+  }
+
+  return points;
+}
+
+function requirePoints(points: PointLike[], minimum: number, name: string) {
+  if (points.length < minimum) {
+    throw new Error(
+      `${name} needs at least ${minimum} points, got ${points.length}`
+    );
+  }
+}
+
+function createUniformBreakpoints(spanCount: number): number[] {
+  return Array.from({ length: spanCount + 1 }, (_, i) => i / spanCount);
+}
+
+// Span index and local parameter in [0, 1] of a global t
+function locateSpan(t: number, spanCount: number): [number, number] {
+  const scaled = Math.min(1, Math.max(0, t)) * spanCount;
+  const span = Math.min(Math.floor(scaled), spanCount - 1);
+  return [span, scaled - span];
+}
+
+// Clamped uniform knot vector: degree + 1 zeros and ones at the ends
+function createClampedKnots(count: number, degree: number): number[] {
+  const interior = count - degree - 1;
+  return [
+    ...Array(degree + 1).fill(0),
+    ...Array.from({ length: interior }, (_, i) => (i + 1) / (interior + 1)),
+    ...Array(degree + 1).fill(1),
+  ];
+}
+
+function distanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared > 0
+      ? Math.max(
+          0,
+          Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)
+        )
+      : 0;
+  return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+}
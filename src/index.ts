@@ -1,75 +1,103 @@
 import { Canvas } from "./Canvas";
-import { createMesh3DFromJSONData, drawWorld, rotateMesh3DY } from "./3d-utils";
+import { Engine } from "./Engine";
+import { createMesh3DFromJSONData } from "./3d-utils";
 import { createGridMesh } from "./3d-object-generators";
 import { World } from "./World";
 import { SceneObject } from "./SceneObject";
 import { Camera } from "./Camera";
+import { OrbitController } from "./OrbitController";
+import { DomInputSource } from "./DomInputSource";
+import { ProjectionMode } from "./ProjectionMode";
+import { Animator } from "./Animator";
+import { AnimationTrack } from "./AnimationTrack";
+import { LoopMode } from "./LoopMode";
+import { Easing } from "./easing";
+import { exportWorldToSVG, downloadSVG } from "./svg-export";
+import { exportScene, downloadScene } from "./scene-format";
+import {
+  RenderOptions,
+  RenderMode,
+  EdgeMode,
+  HiddenLineMode,
+} from "./RenderOptions";
 import cubeData from "./assets/cube.json";
 import pyramidData from "./assets/pyramid.json";
 
-// Global variables for animation
-let canvas: Canvas;
-let world: World;
-let camera: Camera;
-let cubeObjects: SceneObject[];
-let lastFrameTime = 0;
+const RENDER_MODES = [
+  RenderMode.WIREFRAME,
+  RenderMode.SOLID,
+  RenderMode.SOLID_WIRE,
+];
+const HIDDEN_LINE_MODES = [
+  HiddenLineMode.SHOW,
+  HiddenLineMode.DASHED,
+  HiddenLineMode.HIDE,
+];
 const ROTATION_SPEED = 20; // Degrees per second
-const CAMERA_ORBIT_SPEED = 30; // Degrees per second for camera rotation
-let cameraAngle = 0; // Current camera angle around the scene
-
-// Animation loop function (time-based, frame-rate independent)
-const loop = (currentTime: number = 0): void => {
-  // Calculate delta time in seconds
-  const deltaTime =
-    lastFrameTime === 0 ? 0 : (currentTime - lastFrameTime) / 1000;
-  lastFrameTime = currentTime;
-
-  // Clear the canvas
-  canvas.clearScreen();
-
-  // Rotate all cube meshes based on elapsed time (frame-rate independent)
-  const rotationAmount = ROTATION_SPEED * deltaTime;
-  cubeObjects.forEach((cubeObj) =>
-    rotateMesh3DY(cubeObj.getMesh(), rotationAmount)
-  );
+const MOON_ORBIT_SPEED = 90; // Degrees per second for the moon around the middle cube
+const TIME_SCALES = [0.25, 0.5, 1, 2, 4];
 
-  // Orbit camera around the scene
-  cameraAngle += CAMERA_ORBIT_SPEED * deltaTime;
-  camera = Camera.createOrbital(
-    10, // Distance from center (radius of orbit)
-    cameraAngle, // Horizontal angle (orbits on X/Z plane)
-    0, // Vertical angle (keep at same height)
-    { x: 0, y: 0, z: 0 } // Look at origin (center of scene)
-  );
+// Entry point for the 3D engine
+async function main(): Promise<void> {
+  const canvas = new Canvas("canvas");
+  const world = new World();
+  const animator = new Animator();
+  const renderOptions: Partial<RenderOptions> = {
+    renderMode: RenderMode.WIREFRAME,
+    edgeMode: EdgeMode.ALL,
+    backFaceCulling: false,
+    hiddenLineMode: HiddenLineMode.SHOW,
+  };
 
-  // Draw the entire world from camera's perspective
-  // (includes frustum culling inside drawWorld)
-  drawWorld(canvas, world, camera);
+  // Create initial camera position
+  const camera = Camera.createOrbital(10, 0, 0);
 
-  // Debug: Log culled objects every 60 frames (~1 second)
-  if (Math.floor(currentTime / 1000) !== Math.floor(lastFrameTime / 1000)) {
-    const visibleCount = world
-      .getObjects()
-      .filter((obj) => obj.isVisible()).length;
-    const totalCount = world.getObjects().length;
-    console.log(
-      `Visible: ${visibleCount}/${totalCount} objects | Camera angle: ${Math.round(
-        cameraAngle
-      )}°`
-    );
-  }
+  // The engine advances the animator in fixed steps and draws every frame
+  // (includes frustum culling inside drawWorld)
+  const engine = new Engine(canvas, world, camera, { renderOptions });
+  engine.addUpdatable(animator);
 
-  // Request next frame
-  requestAnimationFrame(loop);
-};
+  // Orbit the camera with the mouse (drag rotates, right-drag pans, wheel zooms)
+  const cameraController = new OrbitController(
+    camera,
+    new DomInputSource(canvas.getCanvas())
+  );
+  engine.setCameraController(cameraController);
 
-// Entry point for the 3D engine
-async function main(): Promise<void> {
-  canvas = new Canvas("canvas");
-  world = new World();
+  // Current view settings (toggled with the keys bound below)
+  engine.onAfterRender((target) => {
+    target.drawText(
+      [
+        renderOptions.renderMode,
+        renderOptions.edgeMode,
+        `hidden lines: ${renderOptions.hiddenLineMode}`,
+        renderOptions.backFaceCulling ? "back-face culling" : "",
+        engine.isPaused() ? "paused" : "",
+        engine.getTimeScale() !== 1 ? `time ×${engine.getTimeScale()}` : "",
+      ]
+        .filter((label) => label)
+        .join(" | "),
+      10,
+      10,
+      "#808080",
+      12
+    );
+  });
 
-  // Create initial camera position
-  camera = Camera.createOrbital(10, 0, 0);
+  // Debug: Log culled objects every 60 frames (~1 second)
+  engine.onAfterRender(() => {
+    if (engine.getFrameCount() % 60 === 0) {
+      const visibleCount = world
+        .getObjects()
+        .filter((obj) => obj.isVisible()).length;
+      const totalCount = world.getObjects().length;
+      console.log(
+        `Visible: ${visibleCount}/${totalCount} objects | Camera distance: ${cameraController
+          .getDistance()
+          .toFixed(1)}`
+      );
+    }
+  });
 
   // Create one shared cube mesh (instancing!)
   const cubeMesh = createMesh3DFromJSONData(cubeData);
@@ -120,8 +148,79 @@ async function main(): Promise<void> {
     { x: 1.5, y: 1.5, z: 1.5 } // Slightly larger for visibility
   );
 
-  // Store references for rotation (only cubes rotate, not floor or pyramid)
-  cubeObjects = [cube1, cube2, cube3];
+  // Create a small moon orbiting the middle cube (scene graph test)
+  // The pivot is a child of the cube; rotating the pivot swings the moon around it
+  const moonPivot = SceneObject.createGroup();
+  const moon = new SceneObject(
+    cubeMesh,
+    { x: 2, y: 0.5, z: 0 }, // Relative to the pivot
+    { x: 0, y: 0, z: 0 },
+    { x: 0.25, y: 0.25, z: 0.25 }
+  );
+  moonPivot.addChild(moon);
+  cube2.addChild(moonPivot);
+
+  // Names and tags make objects easy to find (world.getObjectByName("pyramid"))
+  // and are kept in exported scene files
+  floor.name = "floor";
+  pyramid.name = "pyramid";
+  moonPivot.name = "moon-pivot";
+  moon.name = "moon";
+  [cube1, cube2, cube3].forEach((cube, i) => {
+    cube.name = `cube-${i + 1}`;
+    cube.addTag("cube");
+  });
+
+  // Spin each cube around its own Y axis (only cubes rotate, not floor or pyramid)
+  // Tracks drive per-instance rotation, so the shared cube mesh is never modified
+  const spinDuration = 360 / ROTATION_SPEED;
+  for (const cube of [cube1, cube2, cube3]) {
+    const { x, y, z } = cube.rotation;
+    animator.addTrack(
+      new AnimationTrack(
+        cube,
+        "rotation",
+        [
+          { time: 0, value: { x, y, z } },
+          { time: spinDuration, value: { x, y: y + 360, z } },
+        ],
+        { loopMode: LoopMode.LOOP }
+      )
+    );
+  }
+
+  // Swing the moon's pivot around (the moon follows through the scene graph)
+  animator.addTrack(
+    new AnimationTrack(
+      moonPivot,
+      "rotation",
+      [
+        { time: 0, value: { x: 0, y: 0, z: 0 } },
+        { time: 360 / MOON_ORBIT_SPEED, value: { x: 0, y: 360, z: 0 } },
+      ],
+      { loopMode: LoopMode.LOOP }
+    )
+  );
+
+  // Bob the pyramid up and down (eased, ping-pong)
+  animator.addTrack(
+    new AnimationTrack(
+      pyramid,
+      "position",
+      [
+        {
+          time: 0,
+          value: { ...pyramid.position },
+          easing: Easing.easeInOutSine,
+        },
+        {
+          time: 1.5,
+          value: { ...pyramid.position, y: pyramid.position.y + 1 },
+        },
+      ],
+      { loopMode: LoopMode.PING_PONG }
+    )
+  );
 
   // Add floor first (draw order - floor drawn first, then cubes on top)
   world.addObject(floor);
@@ -134,15 +233,69 @@ async function main(): Promise<void> {
   // Add pyramid for frustum culling test
   world.addObject(pyramid);
 
+  // Press "P" to toggle between perspective and orthographic projection
+  // Press "F" to toggle between all edges and feature edges only
+  // Press Space to pause, "." to step a paused scene, "[" / "]" to change speed
+  document.addEventListener("keydown", (event) => {
+    const key = event.key.toLowerCase();
+    if (key === "p") {
+      camera.setProjectionMode(
+        camera.isOrthographic()
+          ? ProjectionMode.PERSPECTIVE
+          : ProjectionMode.ORTHOGRAPHIC
+      );
+    } else if (key === "f") {
+      renderOptions.edgeMode =
+        renderOptions.edgeMode === EdgeMode.FEATURE
+          ? EdgeMode.ALL
+          : EdgeMode.FEATURE;
+    } else if (key === "m") {
+      const current = RENDER_MODES.indexOf(
+        renderOptions.renderMode ?? RenderMode.WIREFRAME
+      );
+      renderOptions.renderMode =
+        RENDER_MODES[(current + 1) % RENDER_MODES.length];
+    } else if (key === "s") {
+      downloadSVG(
+        exportWorldToSVG(world, camera, renderOptions, { groupObjects: true })
+      );
+    } else if (key === "j") {
+      downloadScene(exportScene(world, { cameras: [camera], renderOptions }));
+    } else if (key === "b") {
+      renderOptions.backFaceCulling = !renderOptions.backFaceCulling;
+    } else if (key === "h") {
+      const current = HIDDEN_LINE_MODES.indexOf(
+        renderOptions.hiddenLineMode ?? HiddenLineMode.SHOW
+      );
+      renderOptions.hiddenLineMode =
+        HIDDEN_LINE_MODES[(current + 1) % HIDDEN_LINE_MODES.length];
+    } else if (key === " ") {
+      event.preventDefault(); // Don't scroll the page
+      if (engine.isPaused()) {
+        engine.resume();
+      } else {
+        engine.pause();
+      }
+    } else if (key === "." && engine.isPaused()) {
+      engine.step();
+    } else if (key === "[" || key === "]") {
+      const current = TIME_SCALES.indexOf(engine.getTimeScale());
+      const next = current + (key === "]" ? 1 : -1);
+      engine.setTimeScale(
+        TIME_SCALES[Math.max(0, Math.min(TIME_SCALES.length - 1, next))]
+      );
+    }
+  });
+
   console.log(
-    "3D engine started - camera orbiting around three rotating cubes on a static grid floor!"
+    "3D engine started - three rotating cubes on a static grid floor!"
   );
   console.log(
-    "Watch the orange pyramid appear/disappear as camera rotates (frustum culling test)"
+    "Drag to orbit, right-drag or Shift+drag to pan, scroll to zoom. Watch the orange pyramid appear/disappear as the camera turns (frustum culling test)"
   );
 
   // Start the animation loop
-  loop();
+  engine.start();
 }
 
 // Initialize the engine when the DOM is loaded
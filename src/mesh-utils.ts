@@ -0,0 +1,219 @@
+import { Point3D } from "./Point3D";
+import { Polygon3D } from "./Polygon3D";
+import { Polyline3D } from "./Polyline3D";
+import { Mesh3D } from "./Mesh3D";
+
+/**
+ * Mesh Utilities
+ *
+ * Topology clean-up shared by the mesh file loaders, and simplification
+ * for level-of-detail meshes.
+ */
+
+// Merge vertices closer than tolerance and re-index the polygons
+// Formats like STL store every triangle with its own corners; welding
+// restores shared vertices so edges are deduplicated and adjacency
+// (creases, silhouettes) works. Polygons that collapse to fewer than three
+// distinct vertices are dropped. Returns a new mesh
+export function weldVertices(mesh: Mesh3D, tolerance: number = 1e-6): Mesh3D {
+  if (tolerance < 0) {
+    throw new Error(`Weld tolerance must be non-negative, got ${tolerance}`);
+  }
+
+  // Spatial hash with cells of the tolerance size: a match can only be in
+  // the same or a neighboring cell
+  const cellSize = tolerance > 0 ? tolerance : 1;
+  const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+  const cells = new Map<string, number[]>();
+  const toleranceSquared = tolerance * tolerance;
+
+  const vertices: Point3D[] = [];
+  const remap = mesh.getVertices().map((vertex) => {
+    const cx = Math.floor(vertex.x / cellSize);
+    const cy = Math.floor(vertex.y / cellSize);
+    const cz = Math.floor(vertex.z / cellSize);
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const candidates = cells.get(cellKey(cx + dx, cy + dy, cz + dz));
+          for (const index of candidates ?? []) {
+            const other = vertices[index];
+            const distanceSquared =
+              (other.x - vertex.x) ** 2 +
+              (other.y - vertex.y) ** 2 +
+              (other.z - vertex.z) ** 2;
+            if (distanceSquared <= toleranceSquared) {
+              return index;
+            }
+          }
+        }
+      }
+    }
+
+    const index = vertices.length;
+    vertices.push(vertex);
+    const key = cellKey(cx, cy, cz);
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(index);
+    } else {
+      cells.set(key, [index]);
+    }
+    return index;
+  });
+
+  return remapMesh(mesh, vertices, remap);
+}
+
+// Simplify a mesh by vertex clustering
+// Space is divided into a grid with `resolution` cells along the longest
+// side of the bounding box; all vertices in a cell merge into their average.
+// Polygons that collapse are dropped, as are duplicates, so the polygon
+// (and line) count drops roughly with resolution². Fast and robust on any
+// input, but it doesn't preserve sharp features the way edge collapse does.
+// Returns a new mesh; polygon colors are kept
+export function simplifyMesh(mesh: Mesh3D, resolution: number): Mesh3D {
+  if (!Number.isInteger(resolution) || resolution < 1) {
+    throw new Error(
+      `Simplification resolution must be a positive integer, got ${resolution}`
+    );
+  }
+  const source = mesh.getVertices();
+  if (source.length === 0) {
+    return new Mesh3D([], [], []);
+  }
+
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (const vertex of source) {
+    for (const axis of ["x", "y", "z"] as const) {
+      min[axis] = Math.min(min[axis], vertex[axis]);
+      max[axis] = Math.max(max[axis], vertex[axis]);
+    }
+  }
+  const extent = Math.max(max.x - min.x, max.y - min.y, max.z - min.z);
+  const cellSize = extent > 0 ? extent / resolution : 1;
+
+  // Sum the positions of each cell's vertices
+  const clusters = new Map<
+    string,
+    { index: number; x: number; y: number; z: number; count: number }
+  >();
+  const clusterList: { x: number; y: number; z: number; count: number }[] = [];
+  const remap = source.map((vertex) => {
+    // Clamp so the maximum lands in the last cell instead of one past it
+    const cell = (axis: "x" | "y" | "z") =>
+      Math.min(
+        Math.floor((vertex[axis] - min[axis]) / cellSize),
+        resolution - 1
+      );
+    const key = `${cell("x")},${cell("y")},${cell("z")}`;
+    let cluster = clusters.get(key);
+    if (!cluster) {
+      cluster = { index: clusterList.length, x: 0, y: 0, z: 0, count: 0 };
+      clusters.set(key, cluster);
+      clusterList.push(cluster);
+    }
+    cluster.x += vertex.x;
+    cluster.y += vertex.y;
+    cluster.z += vertex.z;
+    cluster.count++;
+    return cluster.index;
+  });
+
+  const vertices = clusterList.map(
+    (c) => new Point3D(c.x / c.count, c.y / c.count, c.z / c.count)
+  );
+  const merged = remapMesh(mesh, vertices, remap);
+
+  // Clusters often fold neighboring faces onto each other: keep one polygon
+  // per vertex cycle (same corners in the same order, any starting corner)
+  const seen = new Set<string>();
+  const polygons = merged.getPolygons().filter((polygon) => {
+    const indices = polygon.vertexIndices;
+    const start = indices.indexOf(Math.min(...indices));
+    const key = [...indices.slice(start), ...indices.slice(0, start)].join(",");
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  return removeUnusedVertices(
+    new Mesh3D(merged.getVertices(), polygons, merged.getPolylines())
+  );
+}
+
+// New mesh with the polygons and polylines of mesh re-indexed into vertices
+// through remap (old vertex index → new index)
+function remapMesh(mesh: Mesh3D, vertices: Point3D[], remap: number[]): Mesh3D {
+  const polygons: Polygon3D[] = [];
+  for (const polygon of mesh.getPolygons()) {
+    // Drop repeated corners left behind by collapsed edges
+    const indices = polygon.vertexIndices
+      .map((i) => remap[i])
+      .filter((index, i, all) => index !== all[(i + 1) % all.length]);
+    if (new Set(indices).size >= 3) {
+      polygons.push(new Polygon3D(polygon.color, indices));
+    }
+  }
+
+  // Polylines only lose consecutive repeats (they may legitimately be short)
+  const polylines = mesh.getPolylines().map(
+    (polyline) =>
+      new Polyline3D(
+        polyline.color,
+        polyline.vertexIndices
+          .map((i) => remap[i])
+          .filter((index, i, all) => i === 0 || index !== all[i - 1])
+      )
+  );
+
+  return new Mesh3D(vertices, polygons, polylines);
+}
+
+// Drop vertices no polygon or polyline refers to
+function removeUnusedVertices(mesh: Mesh3D): Mesh3D {
+  const remap = new Map<number, number>();
+  const vertices: Point3D[] = [];
+  const useVertex = (index: number): number => {
+    let newIndex = remap.get(index);
+    if (newIndex === undefined) {
+      newIndex = vertices.length;
+      remap.set(index, newIndex);
+      vertices.push(mesh.getVertices()[index]);
+    }
+    return newIndex;
+  };
+
+  const polygons = mesh
+    .getPolygons()
+    .map(
+      (polygon) =>
+        new Polygon3D(polygon.color, polygon.vertexIndices.map(useVertex))
+    );
+  const polylines = mesh
+    .getPolylines()
+    .map(
+      (polyline) =>
+        new Polyline3D(polyline.color, polyline.vertexIndices.map(useVertex))
+    );
+  return new Mesh3D(vertices, polygons, polylines);
+}
+
+// Split polygons with more than three vertices into triangle fans
+// Used by writers of triangle-only formats (STL)
+export function triangulatePolygons(polygons: Polygon3D[]): Polygon3D[] {
+  return polygons.flatMap((polygon) => {
+    const indices = polygon.vertexIndices;
+    const triangles: Polygon3D[] = [];
+    for (let i = 1; i < indices.length - 1; i++) {
+      triangles.push(
+        new Polygon3D(polygon.color, [indices[0], indices[i], indices[i + 1]])
+      );
+    }
+    return triangles;
+  });
+}
@@ -0,0 +1,425 @@
+import { Mesh3DData } from "./3d-utils";
+import { Object2DData } from "./2d-utils";
+import { parseColor } from "./color-utils";
+
+/**
+ * Mesh Data Validation
+ *
+ * Checks JSON object data (Mesh3DData, Object2DData) before it is turned
+ * into engine objects and reports every problem with its JSON path, e.g.
+ * "polygons[4].vertexIndices[2] = 12 out of range (8 vertices)".
+ *
+ * Problems with references (out-of-range or non-integer indices) and
+ * degenerate geometry are repairable: with the repair option the affected
+ * polygons/edges are dropped and unused vertices removed. Type errors
+ * (missing arrays, non-numeric coordinates, missing or unsupported colors)
+ * never are.
+ */
+
+export interface ValidationIssue {
+  path: string; // JSON path of the offending value, "$" for the root
+  message: string; // Problem, phrased to follow the path
+  repairable: boolean; // Fixed by dropping data when repair is enabled
+}
+
+export interface ValidationOptions {
+  repair?: boolean; // Drop broken/degenerate polygons and unused vertices (default false)
+}
+
+export interface ValidationResult<T> {
+  issues: ValidationIssue[]; // Every problem found, including repaired ones
+  data: T | null; // Usable (possibly repaired) data, null if invalid
+}
+
+// Relative tolerance for zero-area polygons (squared-length scale)
+const DEGENERATE_AREA_EPSILON = 1e-12;
+
+// Validate (and optionally repair) 3D mesh data
+export function validateMesh3DData(
+  data: unknown,
+  options: ValidationOptions = {}
+): ValidationResult<Mesh3DData> {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string, repairable = false) =>
+    issues.push({ path, message, repairable });
+
+  if (!isRecord(data)) {
+    report("$", `= ${describe(data)} must be an object`);
+    return { issues, data: null };
+  }
+  const vertices = getArray(data, "vertices", report);
+  const polygons = getArray(data, "polygons", report);
+  if (!vertices || !polygons) {
+    return { issues, data: null };
+  }
+
+  const checkedVertices = vertices.map((vertex, i) =>
+    checkPoint(vertex, `vertices[${i}]`, ["x", "y", "z"], report)
+  );
+
+  const checkedPolygons: Mesh3DData["polygons"] = []; // As given
+  const keptPolygons: Mesh3DData["polygons"] = []; // Repeated indices removed
+  polygons.forEach((polygon, i) => {
+    const path = `polygons[${i}]`;
+    if (!isRecord(polygon)) {
+      report(path, `= ${describe(polygon)} must be an object`);
+      return;
+    }
+    const color = polygon.color;
+    const colorValid = checkColor(color, `${path}.color`, report);
+
+    const indices = polygon.vertexIndices;
+    if (!Array.isArray(indices)) {
+      report(`${path}.vertexIndices`, describeMissing(indices, "an array"));
+      return;
+    }
+    if (
+      !checkIndices(
+        indices,
+        `${path}.vertexIndices`,
+        vertices.length,
+        "vertices",
+        report
+      )
+    ) {
+      return;
+    }
+
+    const corners = removeRepeatedIndices(indices);
+    if (new Set(corners).size < 3) {
+      report(
+        `${path}.vertexIndices`,
+        `has ${new Set(corners).size} distinct vertices (at least 3 needed)`,
+        true
+      );
+      return;
+    }
+    const cornerPoints = corners.map((index) => checkedVertices[index]);
+    if (cornerPoints.every(isPresent) && hasZeroArea(cornerPoints)) {
+      report(path, "is degenerate (zero area)", true);
+      return;
+    }
+
+    // A bad color is reported above and never repairable
+    if (colorValid) {
+      checkedPolygons.push({ color, vertexIndices: indices });
+      keptPolygons.push({ color, vertexIndices: corners });
+    }
+  });
+
+  if (!isUsable(issues, options)) {
+    return { issues, data: null };
+  }
+  if (!options.repair) {
+    // No issues at all, so no vertex is missing from the checked list
+    return {
+      issues,
+      data: {
+        vertices: checkedVertices.filter(isPresent),
+        polygons: checkedPolygons,
+      },
+    };
+  }
+
+  // Remove unused vertices, keeping the original order
+  const { items, remap } = compact(
+    checkedVertices,
+    keptPolygons.map((polygon) => polygon.vertexIndices)
+  );
+  return {
+    issues,
+    data: {
+      vertices: items,
+      polygons: keptPolygons.map((polygon) => ({
+        color: polygon.color,
+        vertexIndices: polygon.vertexIndices.map((index) => remap[index]),
+      })),
+    },
+  };
+}
+
+// Validate (and optionally repair) 2D object data
+// Edges ("vertices") reference points; polygons reference edges
+export function validateObject2DData(
+  data: unknown,
+  options: ValidationOptions = {}
+): ValidationResult<Object2DData> {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string, repairable = false) =>
+    issues.push({ path, message, repairable });
+
+  if (!isRecord(data)) {
+    report("$", `= ${describe(data)} must be an object`);
+    return { issues, data: null };
+  }
+  const points = getArray(data, "points", report);
+  const edges = getArray(data, "vertices", report);
+  const polygons = getArray(data, "polygons", report);
+  if (!points || !edges || !polygons) {
+    return { issues, data: null };
+  }
+
+  const checkedPoints = points.map((point, i) =>
+    checkPoint(point, `points[${i}]`, ["x", "y"], report)
+  );
+
+  const checkedEdges = edges.map((edge, i) => {
+    const path = `vertices[${i}]`;
+    if (!Array.isArray(edge)) {
+      report(path, `= ${describe(edge)} must be an array`);
+      return null;
+    }
+    if (edge.length !== 2) {
+      report(path, `has ${edge.length} elements (expected 2)`, true);
+      return null;
+    }
+    if (!checkIndices(edge, path, points.length, "points", report)) {
+      return null;
+    }
+    if (edge[0] === edge[1]) {
+      report(path, `is degenerate (both ends are point ${edge[0]})`, true);
+      return null;
+    }
+    return edge;
+  });
+
+  const keptPolygons: Object2DData["polygons"] = [];
+  polygons.forEach((polygon, i) => {
+    const path = `polygons[${i}]`;
+    if (!isRecord(polygon)) {
+      report(path, `= ${describe(polygon)} must be an object`);
+      return;
+    }
+    const color = polygon.color;
+    const colorValid = checkColor(color, `${path}.color`, report);
+
+    const indices = polygon.vertexIndices;
+    if (!Array.isArray(indices)) {
+      report(`${path}.vertexIndices`, describeMissing(indices, "an array"));
+      return;
+    }
+    if (indices.length === 0) {
+      report(`${path}.vertexIndices`, "is empty", true);
+      return;
+    }
+    // Problems of the edges themselves are reported once, at the edge
+    if (
+      !checkIndices(
+        indices,
+        `${path}.vertexIndices`,
+        edges.length,
+        "edges",
+        report
+      ) ||
+      !indices.every((index) => checkedEdges[index])
+    ) {
+      return;
+    }
+
+    // A bad color is reported above and never repairable
+    if (colorValid) {
+      keptPolygons.push({ color, vertexIndices: indices });
+    }
+  });
+
+  if (!isUsable(issues, options)) {
+    return { issues, data: null };
+  }
+  if (!options.repair) {
+    // No issues at all, so no point or edge is missing from the checked lists
+    return {
+      issues,
+      data: {
+        points: checkedPoints.filter(isPresent),
+        vertices: checkedEdges.filter(isPresent),
+        polygons: keptPolygons,
+      },
+    };
+  }
+
+  // Remove unused edges, then the points no remaining edge uses
+  const compactedEdges = compact(
+    checkedEdges,
+    keptPolygons.map((polygon) => polygon.vertexIndices)
+  );
+  const compactedPoints = compact(checkedPoints, compactedEdges.items);
+  return {
+    issues,
+    data: {
+      points: compactedPoints.items,
+      vertices: compactedEdges.items.map((edge) =>
+        edge.map((index) => compactedPoints.remap[index])
+      ),
+      polygons: keptPolygons.map((polygon) => ({
+        color: polygon.color,
+        vertexIndices: polygon.vertexIndices.map(
+          (index) => compactedEdges.remap[index]
+        ),
+      })),
+    },
+  };
+}
+
+// One line per issue, for error messages
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `${issue.path} ${issue.message}`).join("\n");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Short description of a JSON value for messages
+function describe(value: unknown): string {
+  if (value === undefined) {
+    return "undefined";
+  }
+  const json = JSON.stringify(value);
+  return json.length > 40 ? `${json.slice(0, 37)}...` : json;
+}
+
+function describeMissing(value: unknown, expected: string): string {
+  return value === undefined
+    ? "is missing"
+    : `= ${describe(value)} must be ${expected}`;
+}
+
+// Data is usable without issues, or with repairable issues only when repairing
+function isUsable(issues: ValidationIssue[], options: ValidationOptions) {
+  return issues.every((issue) => options.repair && issue.repairable);
+}
+
+function getArray(
+  data: Record<string, unknown>,
+  key: string,
+  report: (path: string, message: string) => void
+): unknown[] | null {
+  const value = data[key];
+  if (!Array.isArray(value)) {
+    report(key, describeMissing(value, "an array"));
+    return null;
+  }
+  return value;
+}
+
+function isPresent<T>(value: T | null): value is T {
+  return value !== null;
+}
+
+// Check that a point has finite numeric coordinates; returns just those
+// coordinates, or null if any is invalid
+function checkPoint<Axis extends string>(
+  point: unknown,
+  path: string,
+  axes: Axis[],
+  report: (path: string, message: string) => void
+): Record<Axis, number> | null {
+  if (!isRecord(point)) {
+    report(path, `= ${describe(point)} must be an object`);
+    return null;
+  }
+  const coordinates: Partial<Record<Axis, number>> = {};
+  let valid = true;
+  for (const axis of axes) {
+    const value = point[axis];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      report(`${path}.${axis}`, describeMissing(value, "a finite number"));
+      valid = false;
+    } else {
+      coordinates[axis] = value;
+    }
+  }
+  return valid ? (coordinates as Record<Axis, number>) : null;
+}
+
+// Check that a color is a string parseColor accepts, so it can be drawn
+function checkColor(
+  color: unknown,
+  path: string,
+  report: (path: string, message: string) => void
+): color is string {
+  if (typeof color !== "string") {
+    report(path, describeMissing(color, "a color string"));
+    return false;
+  }
+  try {
+    parseColor(color);
+    return true;
+  } catch {
+    report(path, `= ${describe(color)} is not a supported color`);
+    return false;
+  }
+}
+
+// Check that every entry is an integer index into a list of the given size
+function checkIndices(
+  indices: unknown[],
+  path: string,
+  count: number,
+  itemName: string,
+  report: (path: string, message: string, repairable: boolean) => void
+): indices is number[] {
+  let valid = true;
+  indices.forEach((index, i) => {
+    if (typeof index !== "number" || !Number.isInteger(index)) {
+      report(`${path}[${i}]`, `= ${describe(index)} is not an index`, true);
+      valid = false;
+    } else if (index < 0 || index >= count) {
+      report(
+        `${path}[${i}]`,
+        `= ${index} out of range (${count} ${itemName})`,
+        true
+      );
+      valid = false;
+    }
+  });
+  return valid;
+}
+
+// Drop consecutive repeats (including last → first) from a closed loop
+function removeRepeatedIndices(indices: number[]): number[] {
+  return indices.filter(
+    (index, i) => index !== indices[(i + 1) % indices.length]
+  );
+}
+
+// Newell normal of (near) zero length compared to the polygon's size
+function hasZeroArea(points: { x: number; y: number; z: number }[]): boolean {
+  let nx = 0;
+  let ny = 0;
+  let nz = 0;
+  let size = 0;
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    nx += (current.y - next.y) * (current.z + next.z);
+    ny += (current.z - next.z) * (current.x + next.x);
+    nz += (current.x - next.x) * (current.y + next.y);
+    size = Math.max(
+      size,
+      (next.x - current.x) ** 2 +
+        (next.y - current.y) ** 2 +
+        (next.z - current.z) ** 2
+    );
+  }
+  return Math.hypot(nx, ny, nz) <= DEGENERATE_AREA_EPSILON * size;
+}
+
+// Keep only the items referenced by the index lists (in their original
+// order) and map old indices to new ones. Null marks an invalid item, which
+// nothing kept refers to
+function compact<T>(
+  items: (T | null)[],
+  references: number[][]
+): { items: T[]; remap: number[] } {
+  const used = new Set(references.flat());
+  const remap: number[] = [];
+  const kept: T[] = [];
+  items.forEach((item, index) => {
+    if (item !== null && used.has(index)) {
+      remap[index] = kept.length;
+      kept.push(item);
+    }
+  });
+  return { items: kept, remap };
+}
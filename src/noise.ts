@@ -0,0 +1,130 @@
+/**
+ * Seeded Noise
+ *
+ * Deterministic random numbers and 2D Perlin noise: the same seed always
+ * produces the same values, so generated content (terrain, test scenes)
+ * is reproducible.
+ */
+
+export interface FractalNoiseOptions {
+  octaves?: number; // Number of noise layers summed (default 4)
+  persistence?: number; // Amplitude factor per octave (default 0.5)
+  lacunarity?: number; // Frequency factor per octave (default 2)
+}
+
+// Shift between octaves: noise is 0 at integer coordinates, and with an
+// integer lacunarity all octaves would otherwise share those points
+const OCTAVE_OFFSET = 17.31;
+
+// Seeded pseudo-random generator (mulberry32): returns numbers in [0, 1)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Seeded 2D Perlin noise ("improved" gradients): smooth values in about
+// [-1, 1], 0 at integer coordinates, features about 1 unit across
+export function createPerlinNoise2D(
+  seed: number
+): (x: number, y: number) => number {
+  // Permutation table shuffled by the seed (doubled to avoid wrapping)
+  const random = createRandom(seed);
+  const table = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = table.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [table[i], table[j]] = [table[j], table[i]];
+  }
+  const permutation = [...table, ...table];
+
+  return (x: number, y: number): number => {
+    const cellX = Math.floor(x);
+    const cellY = Math.floor(y);
+    const fx = x - cellX;
+    const fy = y - cellY;
+    const ix = cellX & 255;
+    const iy = cellY & 255;
+
+    const hash = (dx: number, dy: number) =>
+      permutation[permutation[ix + dx] + iy + dy];
+    const u = fade(fx);
+    const v = fade(fy);
+
+    return lerp(
+      lerp(gradient(hash(0, 0), fx, fy), gradient(hash(1, 0), fx - 1, fy), u),
+      lerp(
+        gradient(hash(0, 1), fx, fy - 1),
+        gradient(hash(1, 1), fx - 1, fy - 1),
+        u
+      ),
+      v
+    );
+  };
+}
+
+// Fractal (fBm) sum of noise octaves, normalized back to the noise's range
+// Each octave doubles the detail (lacunarity) at half the amplitude
+// (persistence) by default
+export function fractalNoise2D(
+  noise: (x: number, y: number) => number,
+  x: number,
+  y: number,
+  options: FractalNoiseOptions = {}
+): number {
+  const octaves = options.octaves ?? 4;
+  const persistence = options.persistence ?? 0.5;
+  const lacunarity = options.lacunarity ?? 2;
+  if (!Number.isInteger(octaves) || octaves < 1) {
+    throw new Error(`Octaves must be an integer >= 1, got ${octaves}`);
+  }
+
+  let sum = 0;
+  let amplitudeSum = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  for (let octave = 0; octave < octaves; octave++) {
+    const offset = octave * OCTAVE_OFFSET;
+    sum += amplitude * noise(x * frequency + offset, y * frequency + offset);
+    amplitudeSum += amplitude;
+    amplitude *= persistence;
+    frequency *= lacunarity;
+  }
+
+  return amplitudeSum > 0 ? sum / amplitudeSum : 0;
+}
+
+// Smoothstep-like curve with zero first and second derivatives at 0 and 1
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+// Dot product of the offset with one of 8 gradient directions
+function gradient(hash: number, x: number, y: number): number {
+  switch (hash & 7) {
+    case 0:
+      return x + y;
+    case 1:
+      return -x + y;
+    case 2:
+      return x - y;
+    case 3:
+      return -x - y;
+    case 4:
+      return x;
+    case 5:
+      return -x;
+    case 6:
+      return y;
+    default:
+      return -y;
+  }
+}
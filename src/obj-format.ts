@@ -0,0 +1,336 @@
+import { Point3D } from "./Point3D";
+import { Polygon3D } from "./Polygon3D";
+import { Mesh3D } from "./Mesh3D";
+import { parseColor, formatColor } from "./color-utils";
+import { triangulatePolygons } from "./mesh-utils";
+
+/**
+ * Wavefront OBJ / MTL Support
+ *
+ * Reads the geometry subset of OBJ (v, f, o, g, usemtl, mtllib) into Mesh3D
+ * and writes any Mesh3D back out. Texture coordinates, normals, lines and
+ * smoothing groups are skipped: the engine only uses positions and flat
+ * polygon colors, which come from the diffuse color (Kd) of the MTL material.
+ */
+
+export interface OBJParseOptions {
+  materials?: Map<string, string>; // Material name → color (see parseMTL)
+  defaultColor?: string; // Color of faces without a known material
+  triangulate?: boolean; // Fan-split faces with more than 3 vertices (default false)
+}
+
+// A named part of an OBJ file ("o" or "g" statement) with its own mesh
+export interface OBJObject {
+  name: string;
+  mesh: Mesh3D;
+}
+
+export interface OBJModel {
+  objects: OBJObject[];
+  materialLibraries: string[]; // File names from "mtllib" statements
+}
+
+export interface OBJExportOptions {
+  name?: string; // Object name ("o" statement)
+  materialLibrary?: string; // File name for the "mtllib" statement
+}
+
+const DEFAULT_OBJ_COLOR = "#ffffff";
+
+// Faces collected for one object while parsing
+interface ParsedOBJObject {
+  name: string;
+  faces: { color: string; indices: number[] }[];
+}
+
+// Parse OBJ text into one mesh per object/group
+// Each object gets only the vertices its faces use (re-indexed from 0);
+// faces before any "o"/"g" statement go into an object named "default"
+export function parseOBJ(
+  text: string,
+  options: OBJParseOptions = {}
+): OBJModel {
+  const materials = options.materials ?? new Map<string, string>();
+  const defaultColor = options.defaultColor ?? DEFAULT_OBJ_COLOR;
+
+  const positions: Point3D[] = [];
+  const materialLibraries: string[] = [];
+  const objects: ParsedOBJObject[] = [];
+  let current: ParsedOBJObject = { name: "default", faces: [] };
+  let color = defaultColor;
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((rawLine, lineIndex) => {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (line === "") {
+      return;
+    }
+
+    const [keyword, ...args] = line.split(/\s+/);
+    switch (keyword) {
+      case "v": {
+        const [x, y, z] = args.slice(0, 3).map(Number);
+        if (args.length < 3 || [x, y, z].some((n) => !Number.isFinite(n))) {
+          throw new Error(
+            `OBJ line ${lineIndex + 1}: invalid vertex '${line}'`
+          );
+        }
+        positions.push(new Point3D(x, y, z));
+        break;
+      }
+      case "f": {
+        if (args.length < 3) {
+          throw new Error(
+            `OBJ line ${lineIndex + 1}: face needs at least 3 vertices`
+          );
+        }
+        const indices = args.map((arg) =>
+          resolveIndex(arg.split("/")[0], positions.length, lineIndex)
+        );
+        current.faces.push({ color, indices });
+        break;
+      }
+      case "o":
+      case "g": {
+        const name = args.join(" ") || "default";
+        if (current.faces.length > 0) {
+          objects.push(current);
+        }
+        current = { name, faces: [] };
+        break;
+      }
+      case "usemtl": {
+        const material = args.join(" ");
+        color = materials.get(material) ?? defaultColor;
+        break;
+      }
+      case "mtllib":
+        materialLibraries.push(...args);
+        break;
+      default:
+        // vt, vn, l, s, ...: not used by the engine
+        break;
+    }
+  });
+
+  if (current.faces.length > 0) {
+    objects.push(current);
+  }
+
+  return {
+    objects: objects.map(({ name, faces }) => ({
+      name,
+      mesh: buildMesh(positions, faces, options.triangulate ?? false),
+    })),
+    materialLibraries,
+  };
+}
+
+// Parse OBJ text into a single mesh containing every object/group
+export function createMesh3DFromOBJ(
+  text: string,
+  options: OBJParseOptions = {}
+): Mesh3D {
+  return mergeOBJModel(parseOBJ(text, options));
+}
+
+// Combine every object/group of a parsed model into one mesh
+export function mergeOBJModel(model: OBJModel): Mesh3D {
+  const { objects } = model;
+  const vertices: Point3D[] = [];
+  const polygons: Polygon3D[] = [];
+
+  for (const { mesh } of objects) {
+    const offset = vertices.length;
+    vertices.push(...mesh.getVertices());
+    for (const polygon of mesh.getPolygons()) {
+      polygons.push(
+        new Polygon3D(
+          polygon.color,
+          polygon.vertexIndices.map((i) => i + offset)
+        )
+      );
+    }
+  }
+
+  return new Mesh3D(vertices, polygons);
+}
+
+// Parse MTL text into material name → color (from the diffuse color Kd)
+export function parseMTL(text: string): Map<string, string> {
+  const materials = new Map<string, string>();
+  let current: string | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const [keyword, ...args] = line.split(/\s+/);
+
+    if (keyword === "newmtl") {
+      current = args.join(" ");
+      materials.set(current, DEFAULT_OBJ_COLOR);
+    } else if (keyword === "Kd" && current !== null) {
+      const [r, g, b] = args.map(Number);
+      if ([r, g, b].every((n) => Number.isFinite(n))) {
+        materials.set(
+          current,
+          formatColor({ r: r * 255, g: g * 255, b: b * 255 })
+        );
+      }
+    }
+  }
+
+  return materials;
+}
+
+// Fetch an OBJ file and the MTL libraries it references (relative to its URL)
+export async function loadOBJ(
+  url: string,
+  options: OBJParseOptions = {}
+): Promise<OBJModel> {
+  const text = await fetchText(url);
+
+  // Materials must be known before the faces are parsed
+  const directory = url.slice(0, url.lastIndexOf("/") + 1);
+  const materials = new Map(options.materials ?? []);
+  for (const library of findMaterialLibraries(text)) {
+    for (const [name, color] of parseMTL(
+      await fetchText(directory + library)
+    )) {
+      materials.set(name, color);
+    }
+  }
+
+  return parseOBJ(text, { ...options, materials });
+}
+
+// Write a mesh as OBJ text
+// Polygon colors become materials named after the color (see exportMTL)
+export function exportOBJ(
+  mesh: Mesh3D,
+  options: OBJExportOptions = {}
+): string {
+  const lines: string[] = [];
+  if (options.materialLibrary) {
+    lines.push(`mtllib ${options.materialLibrary}`);
+  }
+  if (options.name) {
+    lines.push(`o ${options.name}`);
+  }
+
+  for (const vertex of mesh.getVertices()) {
+    lines.push(`v ${vertex.x} ${vertex.y} ${vertex.z}`);
+  }
+
+  let currentMaterial: string | null = null;
+  for (const polygon of mesh.getPolygons()) {
+    const material = getMaterialName(polygon.color);
+    if (material !== currentMaterial) {
+      lines.push(`usemtl ${material}`);
+      currentMaterial = material;
+    }
+    // OBJ indices are 1-based
+    lines.push(`f ${polygon.vertexIndices.map((i) => i + 1).join(" ")}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// Write one MTL material per distinct polygon color, matching exportOBJ
+export function exportMTL(mesh: Mesh3D): string {
+  const lines: string[] = [];
+  const written = new Set<string>();
+
+  for (const polygon of mesh.getPolygons()) {
+    const material = getMaterialName(polygon.color);
+    if (written.has(material)) {
+      continue;
+    }
+    written.add(material);
+
+    const { r, g, b } = parseColor(polygon.color);
+    lines.push(
+      `newmtl ${material}`,
+      `Kd ${formatChannel(r)} ${formatChannel(g)} ${formatChannel(b)}`,
+      ""
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// Material name for a polygon color, e.g. "#ff6600" → "color_ff6600"
+function getMaterialName(color: string): string {
+  return `color_${formatColor(parseColor(color)).slice(1)}`;
+}
+
+// 0-255 channel → MTL 0-1 value
+function formatChannel(channel: number): string {
+  return String(Number((channel / 255).toFixed(4)));
+}
+
+// 1-based (or negative, relative to the end) OBJ index → 0-based index
+function resolveIndex(
+  token: string,
+  vertexCount: number,
+  lineIndex: number
+): number {
+  const index = parseInt(token, 10);
+  const resolved = index < 0 ? vertexCount + index : index - 1;
+  if (
+    !Number.isInteger(index) ||
+    index === 0 ||
+    resolved < 0 ||
+    resolved >= vertexCount
+  ) {
+    throw new Error(
+      `OBJ line ${lineIndex + 1}: vertex index ${token} out of range`
+    );
+  }
+  return resolved;
+}
+
+// Mesh with only the vertices the faces use
+function buildMesh(
+  positions: Point3D[],
+  faces: { color: string; indices: number[] }[],
+  triangulate: boolean
+): Mesh3D {
+  // Keep the file's vertex order so exported meshes round-trip unchanged
+  const used = Array.from(new Set(faces.flatMap((face) => face.indices))).sort(
+    (a, b) => a - b
+  );
+  const remap = new Map(used.map((index, local) => [index, local]));
+  const vertices = used.map((index) => positions[index]);
+  const polygons = faces.map(
+    (face) =>
+      new Polygon3D(
+        face.color,
+        face.indices.map((index) => remap.get(index) as number)
+      )
+  );
+
+  return new Mesh3D(
+    vertices,
+    triangulate ? triangulatePolygons(polygons) : polygons
+  );
+}
+
+// File names from the "mtllib" statements of OBJ text
+function findMaterialLibraries(text: string): string[] {
+  const libraries: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const [keyword, ...args] = line.trim().split(/\s+/);
+    if (keyword === "mtllib") {
+      libraries.push(...args);
+    }
+  }
+  return libraries;
+}
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load '${url}': ${response.status}`);
+  }
+  return response.text();
+}
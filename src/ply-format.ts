@@ -0,0 +1,409 @@
+import { Point3D } from "./Point3D";
+import { Polygon3D } from "./Polygon3D";
+import { Mesh3D } from "./Mesh3D";
+import { RGBColor, parseColor, formatColor } from "./color-utils";
+import { weldVertices } from "./mesh-utils";
+
+/**
+ * PLY (Stanford Polygon) Support
+ *
+ * Reads ASCII and binary (little/big endian) PLY from an ArrayBuffer and
+ * writes ASCII and binary little-endian files. Only the vertex positions,
+ * the face index lists and colors are used; other elements and properties
+ * are skipped. Face colors come from the face's red/green/blue properties,
+ * or from the average of its vertex colors when only vertices are colored.
+ */
+
+export interface PLYParseOptions {
+  color?: string; // Color of faces without color properties
+  weld?: boolean; // Merge coincident vertices (default false: PLY shares vertices)
+  weldTolerance?: number;
+}
+
+type PLYFormat = "ascii" | "binary_little_endian" | "binary_big_endian";
+
+interface PLYProperty {
+  name: string;
+  type: string;
+  countType: string | null; // Set for list properties
+}
+
+interface PLYElement {
+  name: string;
+  count: number;
+  properties: PLYProperty[];
+}
+
+// Sequential reader over the body of the file
+interface PLYValueReader {
+  read(type: string): number;
+}
+
+const DEFAULT_PLY_COLOR = "#c0c0c0";
+
+// Byte size of each scalar type (both naming schemes of the spec)
+const TYPE_SIZES: Record<string, number> = {
+  char: 1,
+  uchar: 1,
+  int8: 1,
+  uint8: 1,
+  short: 2,
+  ushort: 2,
+  int16: 2,
+  uint16: 2,
+  int: 4,
+  uint: 4,
+  int32: 4,
+  uint32: 4,
+  float: 4,
+  float32: 4,
+  double: 8,
+  float64: 8,
+};
+
+// Parse a PLY file into a mesh
+export function parsePLY(
+  buffer: ArrayBuffer,
+  options: PLYParseOptions = {}
+): Mesh3D {
+  const bytes = new Uint8Array(buffer);
+  const { format, elements, bodyOffset } = parseHeader(bytes);
+  const reader =
+    format === "ascii"
+      ? createAsciiReader(new TextDecoder().decode(bytes.subarray(bodyOffset)))
+      : createBinaryReader(
+          new DataView(buffer, bodyOffset),
+          format === "binary_little_endian"
+        );
+
+  const vertices: Point3D[] = [];
+  const vertexColors: (RGBColor | null)[] = [];
+  const faces: { indices: number[]; color: RGBColor | null }[] = [];
+
+  for (const element of elements) {
+    for (let i = 0; i < element.count; i++) {
+      const values = readElement(element, reader);
+
+      if (element.name === "vertex") {
+        const { x, y, z } = values;
+        if ([x, y, z].some((n) => typeof n !== "number")) {
+          throw new Error("Invalid PLY: vertex needs x, y and z properties");
+        }
+        vertices.push(new Point3D(x as number, y as number, z as number));
+        vertexColors.push(readColor(element, values));
+      } else if (element.name === "face") {
+        const indices = values.vertex_indices ?? values.vertex_index;
+        if (!Array.isArray(indices)) {
+          throw new Error("Invalid PLY: face needs a vertex_indices list");
+        }
+        faces.push({ indices, color: readColor(element, values) });
+      }
+    }
+  }
+
+  const defaultColor = options.color ?? DEFAULT_PLY_COLOR;
+  const polygons = faces.map((face, faceIndex) => {
+    for (const index of face.indices) {
+      if (!Number.isInteger(index) || index < 0 || index >= vertices.length) {
+        throw new Error(
+          `Invalid PLY: face ${faceIndex} references vertex ${index} of ${vertices.length}`
+        );
+      }
+    }
+    const color =
+      face.color ?? averageColor(face.indices.map((i) => vertexColors[i]));
+    return new Polygon3D(
+      color ? formatColor(color) : defaultColor,
+      face.indices
+    );
+  });
+
+  const mesh = new Mesh3D(vertices, polygons);
+  return options.weld ? weldVertices(mesh, options.weldTolerance) : mesh;
+}
+
+// Write ASCII PLY with per-face colors
+export function exportPLYAscii(mesh: Mesh3D): string {
+  const lines = [createHeader(mesh, "ascii")];
+
+  for (const vertex of mesh.getVertices()) {
+    lines.push(`${vertex.x} ${vertex.y} ${vertex.z}`);
+  }
+  for (const polygon of mesh.getPolygons()) {
+    const { r, g, b } = parseColor(polygon.color);
+    const indices = polygon.vertexIndices;
+    lines.push(`${indices.length} ${indices.join(" ")} ${r} ${g} ${b}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// Write binary little-endian PLY with per-face colors
+export function exportPLYBinary(mesh: Mesh3D): ArrayBuffer {
+  const header = new TextEncoder().encode(
+    createHeader(mesh, "binary_little_endian") + "\n"
+  );
+  const vertices = mesh.getVertices();
+  const polygons = mesh.getPolygons();
+
+  // Vertex: 3 floats; face: uchar count + int indices + 3 uchar colors
+  const bodySize =
+    vertices.length * 12 +
+    polygons.reduce((sum, p) => sum + 1 + p.vertexIndices.length * 4 + 3, 0);
+  const buffer = new ArrayBuffer(header.length + bodySize);
+  new Uint8Array(buffer).set(header);
+
+  const view = new DataView(buffer);
+  let offset = header.length;
+  for (const vertex of vertices) {
+    view.setFloat32(offset, vertex.x, true);
+    view.setFloat32(offset + 4, vertex.y, true);
+    view.setFloat32(offset + 8, vertex.z, true);
+    offset += 12;
+  }
+  for (const polygon of polygons) {
+    const indices = polygon.vertexIndices;
+    view.setUint8(offset++, indices.length);
+    for (const index of indices) {
+      view.setInt32(offset, index, true);
+      offset += 4;
+    }
+    const { r, g, b } = parseColor(polygon.color);
+    view.setUint8(offset++, r);
+    view.setUint8(offset++, g);
+    view.setUint8(offset++, b);
+  }
+
+  return buffer;
+}
+
+function createHeader(mesh: Mesh3D, format: PLYFormat): string {
+  const maxFaceSize = Math.max(
+    0,
+    ...mesh.getPolygons().map((p) => p.vertexIndices.length)
+  );
+  if (maxFaceSize > 255) {
+    throw new Error("PLY export: faces are limited to 255 vertices");
+  }
+
+  return [
+    "ply",
+    `format ${format} 1.0`,
+    `element vertex ${mesh.getVertices().length}`,
+    "property float x",
+    "property float y",
+    "property float z",
+    `element face ${mesh.getPolygons().length}`,
+    "property list uchar int vertex_indices",
+    "property uchar red",
+    "property uchar green",
+    "property uchar blue",
+    "end_header",
+  ].join("\n");
+}
+
+// Header lines up to "end_header"; the body starts after its newline
+function parseHeader(bytes: Uint8Array): {
+  format: PLYFormat;
+  elements: PLYElement[];
+  bodyOffset: number;
+} {
+  const marker = "end_header";
+  const headerEnd = findAscii(bytes, marker);
+  if (headerEnd < 0) {
+    throw new Error("Invalid PLY: missing end_header");
+  }
+
+  let bodyOffset = headerEnd + marker.length;
+  if (bytes[bodyOffset] === 0x0d) {
+    bodyOffset++;
+  }
+  if (bytes[bodyOffset] === 0x0a) {
+    bodyOffset++;
+  }
+
+  const lines = new TextDecoder()
+    .decode(bytes.subarray(0, headerEnd))
+    .split(/\r?\n/)
+    .map((line) => line.trim());
+  if (lines[0] !== "ply") {
+    throw new Error("Invalid PLY: missing 'ply' magic number");
+  }
+
+  let format: PLYFormat | null = null;
+  const elements: PLYElement[] = [];
+
+  for (const line of lines.slice(1)) {
+    const [keyword, ...args] = line.split(/\s+/);
+    if (keyword === "format") {
+      if (
+        args[0] !== "ascii" &&
+        args[0] !== "binary_little_endian" &&
+        args[0] !== "binary_big_endian"
+      ) {
+        throw new Error(`Invalid PLY: unknown format '${args[0]}'`);
+      }
+      format = args[0];
+    } else if (keyword === "element") {
+      elements.push({ name: args[0], count: Number(args[1]), properties: [] });
+    } else if (keyword === "property") {
+      const element = elements[elements.length - 1];
+      if (!element) {
+        throw new Error("Invalid PLY: property before any element");
+      }
+      const property: PLYProperty =
+        args[0] === "list"
+          ? { name: args[3], type: args[2], countType: args[1] }
+          : { name: args[1], type: args[0], countType: null };
+      for (const type of [property.type, property.countType]) {
+        if (type !== null && !(type in TYPE_SIZES)) {
+          throw new Error(`Invalid PLY: unknown property type '${type}'`);
+        }
+      }
+      element.properties.push(property);
+    }
+    // comment / obj_info lines are ignored
+  }
+
+  if (!format) {
+    throw new Error("Invalid PLY: missing format line");
+  }
+  return { format, elements, bodyOffset };
+}
+
+// Read one element instance: scalar properties as numbers, lists as arrays
+function readElement(
+  element: PLYElement,
+  reader: PLYValueReader
+): Record<string, number | number[]> {
+  const values: Record<string, number | number[]> = {};
+  for (const property of element.properties) {
+    if (property.countType !== null) {
+      const count = reader.read(property.countType);
+      const list: number[] = [];
+      for (let i = 0; i < count; i++) {
+        list.push(reader.read(property.type));
+      }
+      values[property.name] = list;
+    } else {
+      values[property.name] = reader.read(property.type);
+    }
+  }
+  return values;
+}
+
+// red/green/blue (or r/g/b) properties; float channels are in 0-1
+function readColor(
+  element: PLYElement,
+  values: Record<string, number | number[]>
+): RGBColor | null {
+  const channel = (names: string[]): number | null => {
+    for (const name of names) {
+      const value = values[name];
+      if (typeof value === "number") {
+        const type = element.properties.find((p) => p.name === name)?.type;
+        const isFloat =
+          type === "float" ||
+          type === "float32" ||
+          type === "double" ||
+          type === "float64";
+        return isFloat ? value * 255 : value;
+      }
+    }
+    return null;
+  };
+
+  const r = channel(["red", "r", "diffuse_red"]);
+  const g = channel(["green", "g", "diffuse_green"]);
+  const b = channel(["blue", "b", "diffuse_blue"]);
+  return r === null || g === null || b === null ? null : { r, g, b };
+}
+
+// Mean of the known colors, or null when none is known
+function averageColor(colors: (RGBColor | null)[]): RGBColor | null {
+  const known = colors.filter((c): c is RGBColor => c !== null);
+  if (known.length === 0) {
+    return null;
+  }
+  const sum = known.reduce(
+    (total, c) => ({ r: total.r + c.r, g: total.g + c.g, b: total.b + c.b }),
+    { r: 0, g: 0, b: 0 }
+  );
+  return {
+    r: sum.r / known.length,
+    g: sum.g / known.length,
+    b: sum.b / known.length,
+  };
+}
+
+function createAsciiReader(body: string): PLYValueReader {
+  const tokens = body.split(/\s+/).filter((token) => token !== "");
+  let index = 0;
+  return {
+    read(): number {
+      if (index >= tokens.length) {
+        throw new Error("Invalid PLY: unexpected end of data");
+      }
+      const value = Number(tokens[index++]);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid PLY: '${tokens[index - 1]}' is not a number`);
+      }
+      return value;
+    },
+  };
+}
+
+function createBinaryReader(
+  view: DataView,
+  littleEndian: boolean
+): PLYValueReader {
+  let offset = 0;
+  return {
+    read(type: string): number {
+      const size = TYPE_SIZES[type];
+      if (offset + size > view.byteLength) {
+        throw new Error("Invalid PLY: unexpected end of data");
+      }
+      const at = offset;
+      offset += size;
+      switch (type) {
+        case "char":
+        case "int8":
+          return view.getInt8(at);
+        case "uchar":
+        case "uint8":
+          return view.getUint8(at);
+        case "short":
+        case "int16":
+          return view.getInt16(at, littleEndian);
+        case "ushort":
+        case "uint16":
+          return view.getUint16(at, littleEndian);
+        case "int":
+        case "int32":
+          return view.getInt32(at, littleEndian);
+        case "uint":
+        case "uint32":
+          return view.getUint32(at, littleEndian);
+        case "float":
+        case "float32":
+          return view.getFloat32(at, littleEndian);
+        default:
+          return view.getFloat64(at, littleEndian);
+      }
+    },
+  };
+}
+
+// Index of the first occurrence of an ASCII string in a byte array (-1 if absent)
+function findAscii(bytes: Uint8Array, text: string): number {
+  outer: for (let i = 0; i <= bytes.length - text.length; i++) {
+    for (let j = 0; j < text.length; j++) {
+      if (bytes[i + j] !== text.charCodeAt(j)) {
+        continue outer;
+      }
+    }
+    return i;
+  }
+  return -1;
+}
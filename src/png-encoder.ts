@@ -0,0 +1,148 @@
+/**
+ * PNG Encoder
+ *
+ * Minimal, dependency-free PNG writer for 8-bit RGBA images.
+ * Image data is wrapped in uncompressed ("stored") deflate blocks: files are
+ * larger than a real compressor would produce, but the output only depends on
+ * the pixels, which keeps golden-image comparisons byte-for-byte stable.
+ */
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Largest payload of a single stored deflate block
+const MAX_STORED_BLOCK_SIZE = 65535;
+
+// CRC-32 lookup table (polynomial 0xEDB88320), built on first use
+let crcTable: Uint32Array | null = null;
+
+// Encode RGBA pixels (row-major, 4 bytes per pixel) as a PNG file
+export function encodePNG(
+  width: number,
+  height: number,
+  rgba: Uint8Array | Uint8ClampedArray
+): Uint8Array {
+  if (width <= 0 || height <= 0) {
+    throw new Error(`Invalid PNG size: ${width}x${height}`);
+  }
+  if (rgba.length !== width * height * 4) {
+    throw new Error(
+      `Invalid pixel data: expected ${width * height * 4} bytes, got ${
+        rgba.length
+      }`
+    );
+  }
+
+  // IHDR: size, bit depth 8, color type 6 (RGBA), default compression/filter/interlace
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8;
+  header[9] = 6;
+
+  // Each scanline is prefixed with its filter type (0 = none)
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return concatBytes([
+    Uint8Array.from(PNG_SIGNATURE),
+    createChunk("IHDR", header),
+    createChunk("IDAT", zlibStore(raw)),
+    createChunk("IEND", new Uint8Array(0)),
+  ]);
+}
+
+// zlib stream containing the data in stored deflate blocks
+function zlibStore(data: Uint8Array): Uint8Array {
+  const blockCount = Math.max(
+    1,
+    Math.ceil(data.length / MAX_STORED_BLOCK_SIZE)
+  );
+  const output = new Uint8Array(2 + data.length + blockCount * 5 + 4);
+
+  // CMF/FLG: deflate, 32K window, no preset dictionary, fastest level
+  output[0] = 0x78;
+  output[1] = 0x01;
+
+  let offset = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * MAX_STORED_BLOCK_SIZE;
+    const length = Math.min(MAX_STORED_BLOCK_SIZE, data.length - start);
+
+    output[offset] = block === blockCount - 1 ? 1 : 0; // BFINAL, BTYPE = 00
+    output[offset + 1] = length & 0xff;
+    output[offset + 2] = length >>> 8;
+    output[offset + 3] = ~length & 0xff;
+    output[offset + 4] = (~length >>> 8) & 0xff;
+    output.set(data.subarray(start, start + length), offset + 5);
+    offset += 5 + length;
+  }
+
+  writeUint32(output, offset, adler32(data));
+  return output;
+}
+
+// Length + type + data + CRC of type and data
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  writeUint32(chunk, 0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  writeUint32(
+    chunk,
+    8 + data.length,
+    crc32(chunk.subarray(4, 8 + data.length))
+  );
+  return chunk;
+}
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+// Big-endian 32-bit write
+function writeUint32(target: Uint8Array, offset: number, value: number): void {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,163 @@
+import { Vec3 } from "./Vec3";
+import { Ray } from "./Ray";
+import { Camera } from "./Camera";
+import { SceneObject } from "./SceneObject";
+import { World } from "./World";
+
+/**
+ * Ray Casting
+ *
+ * Screen → world rays and ray/mesh intersection for picking ("what did the
+ * user click on?") and measuring. Objects are first tested against their
+ * bounding sphere, then against the world-space triangles of their mesh.
+ */
+
+export interface RaycastHit {
+  object: SceneObject;
+  polygonIndex: number; // Index into object.getMesh().getPolygons()
+  distance: number; // World units from the ray origin
+  point: Vec3; // World-space hit position
+  normal: Vec3; // World-space unit normal of the hit polygon (front side)
+}
+
+export interface RaycastOptions {
+  maxDistance?: number; // Ignore hits farther than this (default Infinity)
+  cullBackFaces?: boolean; // Only hit polygons facing the ray (default false)
+  filter?: (sceneObject: SceneObject) => boolean; // Objects to test (default all)
+}
+
+// World-space ray through a screen point (pixels, origin top-left)
+// Inverse of the projection pipeline: screen → NDC → camera space → world.
+// The ray starts on the near plane, so hits are limited to what can be drawn.
+// Perspective rays fan out from the eye; orthographic rays are parallel
+// to the view direction
+export function screenPointToRay(
+  camera: Camera,
+  screenX: number,
+  screenY: number
+): Ray {
+  const halfWidth = camera.viewportWidth / 2;
+  const halfHeight = camera.viewportHeight / 2;
+  const ndcX = (screenX - halfWidth) / halfWidth;
+  const ndcY = (halfHeight - screenY) / halfHeight; // Screen Y points down
+
+  let origin: Vec3;
+  let direction: Vec3;
+  if (camera.isOrthographic()) {
+    const extents = camera.getOrthoHalfExtents();
+    origin = new Vec3(
+      ndcX * extents.halfWidth,
+      ndcY * extents.halfHeight,
+      camera.near
+    );
+    direction = new Vec3(0, 0, 1);
+  } else {
+    // Undo projectToNDCPerspective at depth 1
+    const focalLength = camera.getFocalLength();
+    direction = new Vec3(
+      (ndcX * camera.aspect) / focalLength,
+      ndcY / focalLength,
+      1
+    );
+    origin = direction.scale(camera.near);
+  }
+
+  // Camera space → world space
+  const orientation = camera.getOrientation();
+  return new Ray(
+    orientation.rotateVector(origin).add(Vec3.from(camera.position)),
+    orientation.rotateVector(direction)
+  );
+}
+
+// All hits of a ray on one object's mesh, nearest first
+// Polygons are split into triangle fans (like triangulatePolygons)
+export function raycastSceneObject(
+  ray: Ray,
+  sceneObject: SceneObject,
+  options: RaycastOptions = {}
+): RaycastHit[] {
+  const maxDistance = options.maxDistance ?? Infinity;
+  const mesh = sceneObject.getMesh();
+  const polygons = mesh.getPolygons();
+  if (polygons.length === 0) {
+    return [];
+  }
+
+  // Cheap rejection first: the bounding sphere is centered on the object origin
+  const worldMatrix = sceneObject.getWorldMatrix();
+  const center = worldMatrix.getTranslation();
+  const radius = sceneObject.getWorldBoundingRadius();
+  if (
+    !ray.intersectsSphere(center, radius) ||
+    center.distanceTo(ray.origin) - radius > maxDistance
+  ) {
+    return [];
+  }
+
+  const vertices = mesh
+    .getVertices()
+    .map((vertex) => Vec3.from(worldMatrix.transformPoint(vertex)));
+
+  const hits: RaycastHit[] = [];
+  polygons.forEach((polygon, polygonIndex) => {
+    const indices = polygon.vertexIndices;
+    let nearest: number | null = null;
+    for (let i = 1; i < indices.length - 1; i++) {
+      const t = ray.intersectTriangle(
+        vertices[indices[0]],
+        vertices[indices[i]],
+        vertices[indices[i + 1]],
+        options.cullBackFaces ?? false
+      );
+      if (t !== null && t <= maxDistance && (nearest === null || t < nearest)) {
+        nearest = t;
+      }
+    }
+
+    if (nearest !== null) {
+      hits.push({
+        object: sceneObject,
+        polygonIndex,
+        distance: nearest,
+        point: ray.at(nearest),
+        normal: polygon.computeNormal(vertices).normalize(),
+      });
+    }
+  });
+
+  return hits.sort((a, b) => a.distance - b.distance);
+}
+
+// All hits of a ray in the world (children included), nearest first
+// Only objects whose bounding sphere the ray crosses are tested (found
+// through the world's spatial index when it has one)
+export function raycastWorld(
+  world: World,
+  ray: Ray,
+  options: RaycastOptions = {}
+): RaycastHit[] {
+  const hits: RaycastHit[] = [];
+  for (const sceneObject of world.queryRay(ray, options.maxDistance)) {
+    if (!options.filter || options.filter(sceneObject)) {
+      hits.push(...raycastSceneObject(ray, sceneObject, options));
+    }
+  }
+  return hits.sort((a, b) => a.distance - b.distance);
+}
+
+// Nearest hit under a screen point, or null if nothing is there
+export function pickObject(
+  world: World,
+  camera: Camera,
+  screenX: number,
+  screenY: number,
+  options: RaycastOptions = {}
+): RaycastHit | null {
+  const hits = raycastWorld(
+    world,
+    screenPointToRay(camera, screenX, screenY),
+    options
+  );
+  return hits.length > 0 ? hits[0] : null;
+}
@@ -0,0 +1,927 @@
+import { Polyline3D } from "./Polyline3D";
+import { Mesh3D } from "./Mesh3D";
+import { Quaternion } from "./Quaternion";
+import { SceneObject } from "./SceneObject";
+import { LODObject, LODMetric } from "./LODObject";
+import { World } from "./World";
+import { Camera, CameraProjectionSettings } from "./Camera";
+import { ProjectionMode } from "./ProjectionMode";
+import {
+  RenderOptions,
+  RenderMode,
+  EdgeMode,
+  HiddenLineMode,
+} from "./RenderOptions";
+import { createMesh3DFromJSONData, Mesh3DData } from "./3d-utils";
+import { parseColor } from "./color-utils";
+import {
+  createGridMesh,
+  createBoxMesh,
+  createUVSphereMesh,
+  createIcosphereMesh,
+  createCylinderMesh,
+  createConeMesh,
+  createTorusMesh,
+  createCapsuleMesh,
+  createPlaneMesh,
+  createDiscMesh,
+} from "./3d-object-generators";
+import { createTerrainMesh } from "./terrain-generator";
+import { loadOBJ, mergeOBJModel } from "./obj-format";
+import { parseSTL } from "./stl-format";
+import { parsePLY } from "./ply-format";
+
+/**
+ * Scene Files
+ *
+ * Versioned JSON description of a World: meshes, the object hierarchy with
+ * transforms, cameras and render settings. Meshes are stored once and
+ * referenced by id, so instances that share a Mesh3D still share it after
+ * loading. A mesh is given inline (vertex/polygon data), by generator
+ * parameters (e.g. a box with its size) or as a reference to a mesh file.
+ *
+ *   {
+ *     "format": "3d-engine-scene",
+ *     "version": 1,
+ *     "meshes": {
+ *       "cube": { "type": "generator", "generator": "box", "args": [2, 2, 2] },
+ *       "car": { "type": "asset", "url": "models/car.obj" }
+ *     },
+ *     "objects": [
+ *       { "name": "crate", "mesh": "cube", "position": { "x": -4, "y": 0, "z": 0 },
+ *         "children": [{ "mesh": "cube", "scale": { "x": 0.25, "y": 0.25, "z": 0.25 } }] }
+ *     ],
+ *     "cameras": [{ "position": { "x": 0, "y": 0, "z": -10 } }],
+ *     "renderOptions": { "renderMode": "SOLID" }
+ *   }
+ */
+
+export const SCENE_FORMAT = "3d-engine-scene";
+export const SCENE_FORMAT_VERSION = 1;
+
+type Vector3Data = { x: number; y: number; z: number };
+type QuaternionData = { x: number; y: number; z: number; w: number };
+
+// Where a mesh comes from
+export type SceneMeshSource =
+  | {
+      type: "inline";
+      vertices: Mesh3DData["vertices"];
+      polygons: Mesh3DData["polygons"];
+      polylines?: { color: string; vertexIndices: number[] }[];
+    }
+  | {
+      type: "generator";
+      generator: string; // Key of MESH_GENERATORS
+      args?: unknown[]; // Positional arguments of the generator function
+    }
+  | {
+      type: "asset";
+      url: string; // Relative to the scene file's URL when loaded with loadScene
+      format?: SceneAssetFormat; // Default: from the file extension
+    };
+
+export type SceneAssetFormat = "obj" | "stl" | "ply" | "json";
+
+export interface SceneObjectData {
+  id?: string; // SceneObject id; a new one is generated when omitted
+  name?: string;
+  tags?: string[];
+  userData?: Record<string, unknown>; // Must be JSON-serializable to round-trip
+  mesh?: string; // Mesh id; omitted for groups
+  // LOD objects: levels from most to least detailed (see LODObject)
+  // A null threshold stands for Infinity, which JSON can't express
+  lod?: {
+    levels: { mesh: string; threshold: number | null }[];
+    metric?: LODMetric;
+    hysteresis?: number;
+  };
+  position?: Vector3Data; // Default origin
+  rotation?: Vector3Data; // Euler degrees, default none
+  quaternion?: QuaternionData; // Overrides rotation when present
+  scale?: Vector3Data; // Default 1
+  children?: SceneObjectData[];
+}
+
+export interface SceneCameraData {
+  position?: Vector3Data;
+  rotation?: Vector3Data; // Euler degrees (pitch, yaw, roll)
+  orientation?: QuaternionData; // Overrides rotation when present
+  projection?: Partial<CameraProjectionSettings>;
+}
+
+export interface SceneFile {
+  format: typeof SCENE_FORMAT;
+  version: number;
+  meshes: Record<string, SceneMeshSource>;
+  objects: SceneObjectData[]; // Root objects, children nested
+  cameras?: SceneCameraData[];
+  renderOptions?: Partial<RenderOptions>;
+}
+
+export interface SceneSaveOptions {
+  cameras?: Camera[];
+  renderOptions?: Partial<RenderOptions>;
+  // How to store particular meshes (e.g. loadScene's meshSources, so
+  // generated and file meshes stay references). Others are stored inline
+  meshSources?: Map<Mesh3D, SceneMeshSource>;
+}
+
+export interface SceneLoadOptions {
+  // Resolve asset meshes (default: fetch and parse by format)
+  loadAsset?: (url: string, format: SceneAssetFormat) => Promise<Mesh3D>;
+}
+
+export interface LoadedScene {
+  world: World;
+  cameras: Camera[];
+  renderOptions: Partial<RenderOptions>;
+  meshes: Map<string, Mesh3D>; // By id
+  meshSources: Map<Mesh3D, SceneMeshSource>; // Pass to saveScene to round-trip
+}
+
+// Kinds of generator arguments, checked before the generator is called
+// "colors" is a color or an array of colors (ColorScheme without functions)
+export type GeneratorParameter = "number" | "string" | "colors" | "terrain";
+
+export interface MeshGenerator {
+  create: (...args: never[]) => Mesh3D;
+  parameters: GeneratorParameter[]; // Positional; trailing ones may be left out
+}
+
+const PRIMITIVE_4: GeneratorParameter[] = [
+  "number",
+  "number",
+  "number",
+  "number",
+  "colors",
+];
+
+// Generators available to scene files: name → function, called with args
+export const MESH_GENERATORS: Record<string, MeshGenerator> = {
+  grid: { create: createGridMesh, parameters: ["number", "number", "string"] },
+  box: { create: createBoxMesh, parameters: PRIMITIVE_4 },
+  uvSphere: {
+    create: createUVSphereMesh,
+    parameters: ["number", "number", "number", "colors"],
+  },
+  icosphere: {
+    create: createIcosphereMesh,
+    parameters: ["number", "number", "colors"],
+  },
+  cylinder: { create: createCylinderMesh, parameters: PRIMITIVE_4 },
+  cone: { create: createConeMesh, parameters: PRIMITIVE_4 },
+  torus: { create: createTorusMesh, parameters: PRIMITIVE_4 },
+  capsule: { create: createCapsuleMesh, parameters: PRIMITIVE_4 },
+  plane: { create: createPlaneMesh, parameters: PRIMITIVE_4 },
+  disc: {
+    create: createDiscMesh,
+    parameters: ["number", "number", "number", "colors"],
+  },
+  terrain: { create: createTerrainMesh, parameters: ["terrain"] },
+};
+
+// Describe a world (and optionally cameras/render options) as a scene file
+// CurveObjects are stored with their current polyline mesh and load back as
+// plain SceneObjects: curve functions can't be serialized
+export function saveScene(
+  world: World,
+  options: SceneSaveOptions = {}
+): SceneFile {
+  const meshes: Record<string, SceneMeshSource> = {};
+  const meshIds = new Map<Mesh3D, string>();
+
+  const meshId = (mesh: Mesh3D): string => {
+    let id = meshIds.get(mesh);
+    if (id === undefined) {
+      id = `mesh-${meshIds.size}`;
+      meshIds.set(mesh, id);
+      // Inline data is always rewritten: the mesh may have been edited
+      const source = options.meshSources?.get(mesh);
+      meshes[id] =
+        source && source.type !== "inline" ? source : createInlineSource(mesh);
+    }
+    return id;
+  };
+
+  const saveObject = (sceneObject: SceneObject): SceneObjectData => {
+    const data: SceneObjectData = { id: sceneObject.getId() };
+    if (sceneObject.name !== null) {
+      data.name = sceneObject.name;
+    }
+    if (sceneObject.getTags().length > 0) {
+      data.tags = sceneObject.getTags();
+    }
+    if (Object.keys(sceneObject.userData).length > 0) {
+      data.userData = { ...sceneObject.userData };
+    }
+
+    if (sceneObject instanceof LODObject) {
+      data.lod = {
+        levels: sceneObject.getLevels().map((level) => ({
+          mesh: meshId(level.mesh),
+          threshold: Number.isFinite(level.threshold) ? level.threshold : null,
+        })),
+        metric: sceneObject.metric,
+        hysteresis: sceneObject.hysteresis,
+      };
+    } else if (!isEmptyMesh(sceneObject.getMesh())) {
+      data.mesh = meshId(sceneObject.getMesh());
+    }
+
+    data.position = { ...sceneObject.position };
+    if (sceneObject.hasRotationQuaternion()) {
+      const { x, y, z, w } = sceneObject.getRotationQuaternion();
+      data.quaternion = { x, y, z, w };
+    } else {
+      data.rotation = { ...sceneObject.rotation };
+    }
+    data.scale = { ...sceneObject.scale };
+
+    if (sceneObject.getChildren().length > 0) {
+      data.children = sceneObject.getChildren().map(saveObject);
+    }
+    return data;
+  };
+
+  const objects = world.getRootObjects().map(saveObject);
+  const scene: SceneFile = {
+    format: SCENE_FORMAT,
+    version: SCENE_FORMAT_VERSION,
+    meshes,
+    objects,
+  };
+  if (options.cameras) {
+    scene.cameras = options.cameras.map(saveCamera);
+  }
+  if (options.renderOptions) {
+    scene.renderOptions = { ...options.renderOptions };
+  }
+  return scene;
+}
+
+// Scene file as formatted JSON text
+export function exportScene(
+  world: World,
+  options: SceneSaveOptions = {}
+): string {
+  return JSON.stringify(saveScene(world, options), null, 2);
+}
+
+// Browser helper: save scene JSON as a file (e.g. a snapshot for a bug report)
+export function downloadScene(
+  json: string,
+  fileName: string = "scene.json"
+): void {
+  const url = URL.createObjectURL(
+    new Blob([json], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0); // After the download has started
+}
+
+// Build a world from scene data (JSON text or a parsed object)
+// Throws "Invalid scene: <path> ..." for malformed data
+export async function parseScene(
+  scene: string | unknown,
+  options: SceneLoadOptions = {}
+): Promise<LoadedScene> {
+  const data = typeof scene === "string" ? JSON.parse(scene) : scene;
+  if (!isObject(data) || data.format !== SCENE_FORMAT) {
+    fail("$.format", `must be "${SCENE_FORMAT}"`);
+  }
+  if (data.version !== SCENE_FORMAT_VERSION) {
+    fail(
+      "$.version",
+      `${String(
+        data.version
+      )} is not supported (expected ${SCENE_FORMAT_VERSION})`
+    );
+  }
+
+  // Meshes first: every object refers to them by id
+  const loadAsset = options.loadAsset ?? fetchMeshAsset;
+  const meshes = new Map<string, Mesh3D>();
+  const meshSources = new Map<Mesh3D, SceneMeshSource>();
+  if (!isObject(data.meshes)) {
+    fail("$.meshes", "must be an object of id → mesh");
+  }
+  for (const [id, source] of Object.entries(data.meshes)) {
+    const mesh = await loadMeshSource(source, `$.meshes.${id}`, loadAsset);
+    meshes.set(id, mesh);
+    meshSources.set(mesh, source as SceneMeshSource);
+  }
+
+  const world = new World();
+  const ids = new Set<string>();
+  for (const [i, objectData] of readArray(
+    data.objects,
+    "$.objects"
+  ).entries()) {
+    world.addObject(loadObject(objectData, `$.objects[${i}]`, meshes, ids));
+  }
+
+  const cameras = readArray(data.cameras ?? [], "$.cameras").map(
+    (cameraData, i) => loadCamera(cameraData, `$.cameras[${i}]`)
+  );
+
+  return {
+    world,
+    cameras,
+    renderOptions: readRenderOptions(data.renderOptions ?? {}),
+    meshes,
+    meshSources,
+  };
+}
+
+// Fetch a scene file; asset URLs are resolved relative to it
+export async function loadScene(
+  url: string,
+  options: SceneLoadOptions = {}
+): Promise<LoadedScene> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status}`);
+  }
+  const directory = url.slice(0, url.lastIndexOf("/") + 1);
+  const loadAsset = options.loadAsset ?? fetchMeshAsset;
+  return parseScene(await response.text(), {
+    ...options,
+    loadAsset: (assetUrl, format) =>
+      loadAsset(
+        isAbsoluteUrl(assetUrl) ? assetUrl : directory + assetUrl,
+        format
+      ),
+  });
+}
+
+function createInlineSource(mesh: Mesh3D): SceneMeshSource {
+  const source: SceneMeshSource = {
+    type: "inline",
+    vertices: mesh.getVertices().map(({ x, y, z }) => ({ x, y, z })),
+    polygons: mesh.getPolygons().map((polygon) => ({
+      color: polygon.color,
+      vertexIndices: [...polygon.vertexIndices],
+    })),
+  };
+  if (mesh.getPolylines().length > 0) {
+    source.polylines = mesh.getPolylines().map((polyline) => ({
+      color: polyline.color,
+      vertexIndices: [...polyline.getVertexIndices()],
+    }));
+  }
+  return source;
+}
+
+function isEmptyMesh(mesh: Mesh3D): boolean {
+  return (
+    mesh.getVertices().length === 0 &&
+    mesh.getPolygons().length === 0 &&
+    mesh.getPolylines().length === 0
+  );
+}
+
+function saveCamera(camera: Camera): SceneCameraData {
+  const data: SceneCameraData = { position: { ...camera.position } };
+  if (camera.hasOrientation()) {
+    const { x, y, z, w } = camera.getOrientation();
+    data.orientation = { x, y, z, w };
+  } else {
+    data.rotation = { ...camera.rotation };
+  }
+  data.projection = camera.getProjectionSettings();
+  return data;
+}
+
+async function loadMeshSource(
+  source: unknown,
+  path: string,
+  loadAsset: (url: string, format: SceneAssetFormat) => Promise<Mesh3D>
+): Promise<Mesh3D> {
+  if (!isObject(source)) {
+    fail(path, "must be an object");
+  }
+
+  switch (source.type) {
+    case "inline": {
+      // Polygon colors are checked (with parseColor) by the mesh validation
+      const mesh = wrapErrors(path, () => createMesh3DFromJSONData(source));
+      const polylines = readArray(source.polylines ?? [], `${path}.polylines`);
+      mesh.setPolylines(
+        polylines.map((polyline, i) => {
+          const polylinePath = `${path}.polylines[${i}]`;
+          if (!isObject(polyline)) {
+            fail(polylinePath, "must be an object");
+          }
+          const color = readColor(polyline.color, `${polylinePath}.color`);
+          const indices = readArray(
+            polyline.vertexIndices,
+            `${polylinePath}.vertexIndices`
+          );
+          indices.forEach((index, j) => {
+            if (
+              !Number.isInteger(index) ||
+              (index as number) < 0 ||
+              (index as number) >= mesh.getVertices().length
+            ) {
+              fail(
+                `${polylinePath}.vertexIndices[${j}]`,
+                "is not a vertex index"
+              );
+            }
+          });
+          return new Polyline3D(color, indices as number[]);
+        })
+      );
+      return mesh;
+    }
+
+    case "generator": {
+      // Own properties only: "toString" or "constructor" aren't generators
+      const generator =
+        typeof source.generator === "string" &&
+        Object.prototype.hasOwnProperty.call(MESH_GENERATORS, source.generator)
+          ? MESH_GENERATORS[source.generator]
+          : undefined;
+      if (!generator) {
+        fail(
+          `${path}.generator`,
+          `must be one of ${Object.keys(MESH_GENERATORS).join(", ")}`
+        );
+      }
+      const { create, parameters } = generator as MeshGenerator;
+      const args = readArray(source.args ?? [], `${path}.args`);
+      if (args.length > parameters.length) {
+        fail(`${path}.args`, `must have at most ${parameters.length} values`);
+      }
+      args.forEach((arg, i) =>
+        checkGeneratorArgument(arg, parameters[i], `${path}.args[${i}]`)
+      );
+      return wrapErrors(path, () =>
+        (create as (...args: unknown[]) => Mesh3D)(...args)
+      );
+    }
+
+    case "asset": {
+      if (typeof source.url !== "string") {
+        fail(`${path}.url`, "must be a string");
+      }
+      const format = source.format ?? getAssetFormat(source.url);
+      if (!["obj", "stl", "ply", "json"].includes(format as string)) {
+        fail(`${path}.format`, "must be obj, stl, ply or json");
+      }
+      return loadAsset(source.url, format as SceneAssetFormat);
+    }
+
+    default:
+      return fail(`${path}.type`, "must be inline, generator or asset");
+  }
+}
+
+function loadObject(
+  data: unknown,
+  path: string,
+  meshes: Map<string, Mesh3D>,
+  ids: Set<string> // Ids loaded so far (generated ones too), kept unique
+): SceneObject {
+  if (!isObject(data)) {
+    fail(path, "must be an object");
+  }
+
+  const getMesh = (id: unknown, meshPath: string): Mesh3D => {
+    const mesh = typeof id === "string" ? meshes.get(id) : undefined;
+    if (!mesh) {
+      fail(meshPath, `refers to unknown mesh ${JSON.stringify(id)}`);
+    }
+    return mesh;
+  };
+
+  const position = readVector(data.position, `${path}.position`, 0);
+  const rotation = readVector(data.rotation, `${path}.rotation`, 0);
+  const scale = readVector(data.scale, `${path}.scale`, 1);
+
+  let sceneObject: SceneObject;
+  if (data.lod !== undefined) {
+    const lodPath = `${path}.lod`;
+    if (!isObject(data.lod)) {
+      fail(lodPath, "must be an object");
+    }
+    const levels = readArray(data.lod.levels, `${lodPath}.levels`).map(
+      (level, i) => {
+        const levelPath = `${lodPath}.levels[${i}]`;
+        if (!isObject(level)) {
+          fail(levelPath, "must be an object");
+        }
+        if (level.threshold !== null && typeof level.threshold !== "number") {
+          fail(`${levelPath}.threshold`, "must be a number or null");
+        }
+        return {
+          mesh: getMesh(level.mesh, `${levelPath}.mesh`),
+          threshold: (level.threshold as number | null) ?? Infinity,
+        };
+      }
+    );
+    if (levels.length === 0) {
+      fail(`${lodPath}.levels`, "must not be empty");
+    }
+    const metric = data.lod.metric ?? LODMetric.SCREEN_SIZE;
+    if (!Object.values(LODMetric).includes(metric as LODMetric)) {
+      fail(`${lodPath}.metric`, "must be SCREEN_SIZE or DISTANCE");
+    }
+    sceneObject = new LODObject(
+      levels,
+      {
+        metric: metric as LODMetric,
+        hysteresis: readNumber(data.lod.hysteresis, `${lodPath}.hysteresis`),
+      },
+      position,
+      rotation,
+      scale
+    );
+  } else if (data.mesh !== undefined) {
+    sceneObject = new SceneObject(
+      getMesh(data.mesh, `${path}.mesh`),
+      position,
+      rotation,
+      scale
+    );
+  } else {
+    sceneObject = SceneObject.createGroup(position, rotation, scale);
+  }
+
+  if (data.quaternion !== undefined) {
+    sceneObject.setRotationQuaternion(
+      readQuaternion(data.quaternion, `${path}.quaternion`)
+    );
+  }
+
+  const id = readString(data.id, `${path}.id`);
+  if (id !== undefined) {
+    sceneObject.setId(id);
+  }
+  if (ids.has(sceneObject.getId())) {
+    fail(`${path}.id`, "is a duplicate");
+  }
+  ids.add(sceneObject.getId());
+  sceneObject.name = readString(data.name, `${path}.name`) ?? null;
+  readArray(data.tags ?? [], `${path}.tags`).forEach((tag, i) => {
+    if (typeof tag !== "string") {
+      fail(`${path}.tags[${i}]`, "must be a string");
+    }
+    sceneObject.addTag(tag);
+  });
+  if (data.userData !== undefined) {
+    if (!isObject(data.userData)) {
+      fail(`${path}.userData`, "must be an object");
+    }
+    sceneObject.userData = { ...data.userData };
+  }
+
+  readArray(data.children ?? [], `${path}.children`).forEach((child, i) =>
+    sceneObject.addChild(
+      loadObject(child, `${path}.children[${i}]`, meshes, ids)
+    )
+  );
+  return sceneObject;
+}
+
+function loadCamera(data: unknown, path: string): Camera {
+  if (!isObject(data)) {
+    fail(path, "must be an object");
+  }
+  const projection = data.projection ?? {};
+  if (!isObject(projection)) {
+    fail(`${path}.projection`, "must be an object");
+  }
+  if (
+    projection.projectionMode !== undefined &&
+    !Object.values(ProjectionMode).includes(
+      projection.projectionMode as ProjectionMode
+    )
+  ) {
+    fail(`${path}.projection.projectionMode`, "is not a projection mode");
+  }
+  // Same limits as the Camera setters
+  const positive = [
+    "near",
+    "far",
+    "aspect",
+    "viewportWidth",
+    "viewportHeight",
+    "zoom",
+    "orthoSize",
+  ];
+  for (const key of positive) {
+    const value = readNumber(projection[key], `${path}.projection.${key}`);
+    if (value !== undefined && value <= 0) {
+      fail(`${path}.projection.${key}`, "must be positive");
+    }
+  }
+  const fov = readNumber(projection.fov, `${path}.projection.fov`);
+  if (fov !== undefined && (fov <= 0 || fov >= 180)) {
+    fail(`${path}.projection.fov`, "must be between 0 and 180 degrees");
+  }
+
+  const camera = new Camera(
+    readVector(data.position, `${path}.position`, 0),
+    readVector(data.rotation, `${path}.rotation`, 0),
+    projection as Partial<CameraProjectionSettings>
+  );
+  if (camera.far <= camera.near) {
+    fail(`${path}.projection.far`, "must be greater than near");
+  }
+  if (data.orientation !== undefined) {
+    camera.setOrientation(
+      readQuaternion(data.orientation, `${path}.orientation`)
+    );
+  }
+  return camera;
+}
+
+// Every field is checked and unknown keys are rejected, so options that
+// load are options drawWorld can use
+function readRenderOptions(data: unknown): Partial<RenderOptions> {
+  const path = "$.renderOptions";
+  if (!isObject(data)) {
+    fail(path, "must be an object");
+  }
+
+  const options: Partial<RenderOptions> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const keyPath = `${path}.${key}`;
+    switch (key) {
+      case "renderMode":
+        options.renderMode = readEnumValue(value, RenderMode, keyPath);
+        break;
+      case "edgeMode":
+        options.edgeMode = readEnumValue(value, EdgeMode, keyPath);
+        break;
+      case "hiddenLineMode":
+        options.hiddenLineMode = readEnumValue(value, HiddenLineMode, keyPath);
+        break;
+      case "creaseAngle":
+        options.creaseAngle = readNumber(value, keyPath);
+        break;
+      case "ambientLight": {
+        const ambientLight = readNumber(value, keyPath);
+        if (
+          ambientLight === undefined ||
+          ambientLight < 0 ||
+          ambientLight > 1
+        ) {
+          fail(keyPath, "must be between 0 and 1");
+        }
+        options.ambientLight = ambientLight;
+        break;
+      }
+      case "silhouetteEdges":
+      case "backFaceCulling":
+        if (typeof value !== "boolean") {
+          fail(keyPath, "must be true or false");
+        }
+        options[key] = value;
+        break;
+      case "hiddenLineDash":
+        options.hiddenLineDash = readArray(value, keyPath).map((length, i) => {
+          const dash = readNumber(length, `${keyPath}[${i}]`);
+          if (dash === undefined || dash < 0) {
+            fail(`${keyPath}[${i}]`, "must be a length >= 0");
+          }
+          return dash;
+        });
+        break;
+      case "wireColor":
+        options.wireColor = value === null ? null : readColor(value, keyPath);
+        break;
+      case "lightDirection": {
+        const direction = readVector(value, keyPath, 0);
+        if (direction.x === 0 && direction.y === 0 && direction.z === 0) {
+          fail(keyPath, "must not be zero");
+        }
+        options.lightDirection = direction;
+        break;
+      }
+      default:
+        fail(keyPath, "is not a render option");
+    }
+  }
+  return options;
+}
+
+function readEnumValue<T extends string>(
+  value: unknown,
+  values: Record<string, T>,
+  path: string
+): T {
+  const allowed: unknown[] = Object.values(values);
+  if (!allowed.includes(value)) {
+    fail(path, `must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+// Default asset loader (browser or any runtime with fetch)
+async function fetchMeshAsset(
+  url: string,
+  format: SceneAssetFormat
+): Promise<Mesh3D> {
+  if (format === "obj") {
+    return mergeOBJModel(await loadOBJ(url));
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status}`);
+  }
+  switch (format) {
+    case "stl":
+      return parseSTL(await response.arrayBuffer());
+    case "ply":
+      return parsePLY(await response.arrayBuffer());
+    case "json":
+      return createMesh3DFromJSONData(await response.json());
+  }
+}
+
+function getAssetFormat(url: string): string {
+  const path = url.split(/[?#]/)[0];
+  return path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+}
+
+function isAbsoluteUrl(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith("/");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    fail(path, "must be an array");
+  }
+  return value;
+}
+
+function readNumber(value: unknown, path: string): number | undefined {
+  if (
+    value !== undefined &&
+    (typeof value !== "number" || !Number.isFinite(value))
+  ) {
+    fail(path, "must be a number");
+  }
+  return value as number | undefined;
+}
+
+function checkGeneratorArgument(
+  value: unknown,
+  parameter: GeneratorParameter,
+  path: string
+): void {
+  switch (parameter) {
+    case "number":
+      if (readNumber(value, path) === undefined) {
+        fail(path, "must be a number");
+      }
+      return;
+    case "string":
+      if (typeof value !== "string") {
+        fail(path, "must be a string");
+      }
+      return;
+    case "colors":
+      if (Array.isArray(value)) {
+        value.forEach((color, i) => readColor(color, `${path}[${i}]`));
+      } else {
+        readColor(value, path);
+      }
+      return;
+    case "terrain":
+      checkTerrainOptions(value, path);
+      return;
+  }
+}
+
+// TerrainOptions field types (value ranges are checked by the generator)
+function checkTerrainOptions(value: unknown, path: string): void {
+  if (!isObject(value)) {
+    fail(path, "must be an object");
+  }
+  for (const key of ["gridSize", "cellSize", "maxHeight", "skirtDepth"]) {
+    readNumber(value[key], `${path}.${key}`);
+  }
+  if (value.skirtColor !== undefined) {
+    readColor(value.skirtColor, `${path}.skirtColor`);
+  }
+  if (value.normalize !== undefined && typeof value.normalize !== "boolean") {
+    fail(`${path}.normalize`, "must be true or false");
+  }
+
+  if (value.noise !== undefined) {
+    const noise = value.noise;
+    if (!isObject(noise)) {
+      fail(`${path}.noise`, "must be an object");
+    }
+    for (const key of [
+      "seed",
+      "scale",
+      "octaves",
+      "persistence",
+      "lacunarity",
+    ]) {
+      readNumber(noise[key], `${path}.noise.${key}`);
+    }
+  }
+
+  if (value.colorBands !== undefined) {
+    readArray(value.colorBands, `${path}.colorBands`).forEach((band, i) => {
+      const bandPath = `${path}.colorBands[${i}]`;
+      if (
+        !isObject(band) ||
+        readNumber(band.upTo, `${bandPath}.upTo`) === undefined ||
+        band.color === undefined
+      ) {
+        fail(bandPath, "must be {upTo, color}");
+      }
+      readColor(band.color, `${bandPath}.color`);
+    });
+  }
+
+  if (value.heightmap !== undefined) {
+    const heightmap = value.heightmap;
+    const heightmapPath = `${path}.heightmap`;
+    if (
+      !isObject(heightmap) ||
+      readNumber(heightmap.width, `${heightmapPath}.width`) === undefined ||
+      readNumber(heightmap.height, `${heightmapPath}.height`) === undefined
+    ) {
+      fail(heightmapPath, "must be {width, height, values}");
+    }
+    readArray(heightmap.values, `${heightmapPath}.values`).forEach((v, i) =>
+      readNumber(v, `${heightmapPath}.values[${i}]`)
+    );
+  }
+}
+
+function readString(value: unknown, path: string): string | undefined {
+  if (value !== undefined && typeof value !== "string") {
+    fail(path, "must be a string");
+  }
+  return value as string | undefined;
+}
+
+// A color string that parseColor accepts, so it can be drawn
+function readColor(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    fail(path, "must be a color string");
+  }
+  wrapErrors(path, () => parseColor(value));
+  return value;
+}
+
+function readVector(
+  value: unknown,
+  path: string,
+  fallback: number
+): Vector3Data {
+  if (value === undefined) {
+    return { x: fallback, y: fallback, z: fallback };
+  }
+  if (
+    !isObject(value) ||
+    !["x", "y", "z"].every((axis) => typeof value[axis] === "number")
+  ) {
+    fail(path, "must be {x, y, z} numbers");
+  }
+  return { x: value.x as number, y: value.y as number, z: value.z as number };
+}
+
+function readQuaternion(value: unknown, path: string): Quaternion {
+  if (
+    !isObject(value) ||
+    !["x", "y", "z", "w"].every((axis) => typeof value[axis] === "number")
+  ) {
+    fail(path, "must be {x, y, z, w} numbers");
+  }
+  return new Quaternion(
+    value.x as number,
+    value.y as number,
+    value.z as number,
+    value.w as number
+  );
+}
+
+// Run a builder, prefixing its error with the scene path
+function wrapErrors<T>(path: string, build: () => T): T {
+  try {
+    return build();
+  } catch (error) {
+    return fail(path, (error as Error).message);
+  }
+}
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid scene: ${path} ${message}`);
+}
@@ -0,0 +1,166 @@
+import { Point3D } from "./Point3D";
+import { Polygon3D } from "./Polygon3D";
+import { Mesh3D } from "./Mesh3D";
+import { weldVertices, triangulatePolygons } from "./mesh-utils";
+
+/**
+ * STL Support
+ *
+ * Reads ASCII and binary STL from an ArrayBuffer (browser and Node) and
+ * writes both variants. STL is a triangle soup with no colors: parsed
+ * meshes get a single color, and vertices are welded by default so shared
+ * edges are recognized.
+ */
+
+export interface STLParseOptions {
+  color?: string; // Color of every polygon
+  weld?: boolean; // Merge coincident vertices (default true)
+  weldTolerance?: number; // Maximum distance between merged vertices
+}
+
+const DEFAULT_STL_COLOR = "#c0c0c0";
+const BINARY_HEADER_SIZE = 80;
+const BINARY_TRIANGLE_SIZE = 50; // Normal + 3 vertices (12 floats) + attribute count
+
+// Parse an ASCII or binary STL file
+export function parseSTL(
+  buffer: ArrayBuffer,
+  options: STLParseOptions = {}
+): Mesh3D {
+  const color = options.color ?? DEFAULT_STL_COLOR;
+  const mesh = isBinarySTL(buffer)
+    ? parseBinarySTL(buffer, color)
+    : parseAsciiSTL(new TextDecoder().decode(buffer), color);
+
+  const weld = options.weld ?? true;
+  return weld ? weldVertices(mesh, options.weldTolerance) : mesh;
+}
+
+// Write ASCII STL (polygons are fan-triangulated)
+export function exportSTLAscii(mesh: Mesh3D, name: string = "mesh"): string {
+  const vertices = mesh.getVertices();
+  const lines = [`solid ${name}`];
+
+  for (const triangle of triangulatePolygons(mesh.getPolygons())) {
+    const normal = triangle.computeNormal(vertices).normalize();
+    lines.push(`  facet normal ${normal.x} ${normal.y} ${normal.z}`);
+    lines.push("    outer loop");
+    for (const index of triangle.vertexIndices) {
+      const v = vertices[index];
+      lines.push(`      vertex ${v.x} ${v.y} ${v.z}`);
+    }
+    lines.push("    endloop");
+    lines.push("  endfacet");
+  }
+
+  lines.push(`endsolid ${name}`);
+  return lines.join("\n") + "\n";
+}
+
+// Write binary STL (little-endian, polygons are fan-triangulated)
+export function exportSTLBinary(mesh: Mesh3D): ArrayBuffer {
+  const vertices = mesh.getVertices();
+  const triangles = triangulatePolygons(mesh.getPolygons());
+  const buffer = new ArrayBuffer(
+    BINARY_HEADER_SIZE + 4 + triangles.length * BINARY_TRIANGLE_SIZE
+  );
+  const view = new DataView(buffer);
+
+  // Header: free text, must not start with "solid" (ASCII detection)
+  const header = "binary STL";
+  for (let i = 0; i < header.length; i++) {
+    view.setUint8(i, header.charCodeAt(i));
+  }
+  view.setUint32(BINARY_HEADER_SIZE, triangles.length, true);
+
+  let offset = BINARY_HEADER_SIZE + 4;
+  for (const triangle of triangles) {
+    const normal = triangle.computeNormal(vertices).normalize();
+    const points = [normal, ...triangle.vertexIndices.map((i) => vertices[i])];
+    for (const point of points) {
+      view.setFloat32(offset, point.x, true);
+      view.setFloat32(offset + 4, point.y, true);
+      view.setFloat32(offset + 8, point.z, true);
+      offset += 12;
+    }
+    view.setUint16(offset, 0, true); // Attribute byte count
+    offset += 2;
+  }
+
+  return buffer;
+}
+
+// Binary files have an exact size; the "solid" prefix alone isn't reliable
+// because some binary exporters start their header with it
+function isBinarySTL(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < BINARY_HEADER_SIZE + 4) {
+    return false;
+  }
+  const triangleCount = new DataView(buffer).getUint32(
+    BINARY_HEADER_SIZE,
+    true
+  );
+  return (
+    buffer.byteLength ===
+    BINARY_HEADER_SIZE + 4 + triangleCount * BINARY_TRIANGLE_SIZE
+  );
+}
+
+function parseBinarySTL(buffer: ArrayBuffer, color: string): Mesh3D {
+  const view = new DataView(buffer);
+  const triangleCount = view.getUint32(BINARY_HEADER_SIZE, true);
+  const vertices: Point3D[] = [];
+  const polygons: Polygon3D[] = [];
+
+  for (let t = 0; t < triangleCount; t++) {
+    // Skip the stored normal: it is recomputed from the winding when needed
+    let offset = BINARY_HEADER_SIZE + 4 + t * BINARY_TRIANGLE_SIZE + 12;
+    const first = vertices.length;
+    for (let corner = 0; corner < 3; corner++) {
+      vertices.push(
+        new Point3D(
+          view.getFloat32(offset, true),
+          view.getFloat32(offset + 4, true),
+          view.getFloat32(offset + 8, true)
+        )
+      );
+      offset += 12;
+    }
+    polygons.push(new Polygon3D(color, [first, first + 1, first + 2]));
+  }
+
+  return new Mesh3D(vertices, polygons);
+}
+
+function parseAsciiSTL(text: string, color: string): Mesh3D {
+  if (!/^\s*solid\b/.test(text)) {
+    throw new Error("Invalid STL: neither binary nor ASCII ('solid' expected)");
+  }
+
+  const vertices: Point3D[] = [];
+  const polygons: Polygon3D[] = [];
+  let loop: number[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const [keyword, ...args] = rawLine.trim().split(/\s+/);
+    if (keyword === "outer") {
+      loop = [];
+    } else if (keyword === "vertex") {
+      const [x, y, z] = args.map(Number);
+      if (args.length < 3 || [x, y, z].some((n) => !Number.isFinite(n))) {
+        throw new Error(`STL line ${lineIndex + 1}: invalid vertex`);
+      }
+      loop.push(vertices.length);
+      vertices.push(new Point3D(x, y, z));
+    } else if (keyword === "endloop") {
+      if (loop.length < 3) {
+        throw new Error(
+          `STL line ${lineIndex + 1}: facet needs at least 3 vertices`
+        );
+      }
+      polygons.push(new Polygon3D(color, loop));
+    }
+  });
+
+  return new Mesh3D(vertices, polygons);
+}
@@ -0,0 +1,50 @@
+import { World } from "./World";
+import { Camera } from "./Camera";
+import { RenderOptions } from "./RenderOptions";
+import { drawWorld } from "./3d-utils";
+import { SvgRenderTarget, SvgRenderTargetOptions } from "./SvgRenderTarget";
+
+/**
+ * SVG Export
+ *
+ * Render a frame of a World as a standalone SVG document: vector output for
+ * figures that stay sharp at any scale.
+ */
+
+export interface SvgExportOptions extends SvgRenderTargetOptions {
+  background?: string | null; // Fill color, or null for a transparent background
+}
+
+// Render the world from the camera into an SVG string
+// The document size matches the camera's viewport
+export function exportWorldToSVG(
+  world: World,
+  camera: Camera,
+  renderOptions: Partial<RenderOptions> = {},
+  options: SvgExportOptions = {}
+): string {
+  const svg = new SvgRenderTarget(
+    camera.viewportWidth,
+    camera.viewportHeight,
+    options
+  );
+
+  const background =
+    options.background === undefined ? "#000000" : options.background;
+  if (background !== null) {
+    svg.clearScreen(background);
+  }
+
+  drawWorld(svg, world, camera, renderOptions);
+  return svg.toSVG();
+}
+
+// Trigger a browser download of an SVG document
+export function downloadSVG(svg: string, fileName: string = "frame.svg"): void {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0); // After the download has started
+}
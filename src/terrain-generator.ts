@@ -0,0 +1,239 @@
+import { Point3D } from "./Point3D";
+import { Polygon3D } from "./Polygon3D";
+import { Mesh3D } from "./Mesh3D";
+import { createGridMesh } from "./3d-object-generators";
+import {
+  FractalNoiseOptions,
+  createPerlinNoise2D,
+  fractalNoise2D,
+} from "./noise";
+
+/**
+ * Terrain Generator
+ *
+ * Displaces a createGridMesh grid by a height field: either a grayscale
+ * heightmap or seeded fractal Perlin noise. Polygons are colored by height
+ * bands, and an optional skirt closes the border down to a flat base.
+ */
+
+// Grayscale height samples in [0, 1], row-major (row = Z, column = X)
+export interface Heightmap {
+  width: number; // Samples per row
+  height: number; // Number of rows
+  values: ArrayLike<number>;
+}
+
+export interface TerrainNoiseOptions extends FractalNoiseOptions {
+  seed?: number; // Same seed, same terrain (default 0)
+  scale?: number; // World units per noise feature (default 8)
+}
+
+// Color for polygons whose average normalized height is at most upTo
+export interface ColorBand {
+  upTo: number; // Normalized height in [0, 1]
+  color: string;
+}
+
+export interface TerrainOptions {
+  gridSize?: number; // Cells per side (default 32)
+  cellSize?: number; // Size of each cell (default 1)
+  maxHeight?: number; // World height of normalized height 1 (default 4)
+  heightmap?: Heightmap; // Height source; seeded noise is used when absent
+  noise?: TerrainNoiseOptions;
+  // Stretch the sampled heights to span [0, 1] (default: on for noise, whose
+  // fractal sum rarely reaches the extremes). Turn off for tiles that must
+  // match at their borders
+  normalize?: boolean;
+  colorBands?: ColorBand[]; // Sorted by upTo (default water → snow)
+  skirtDepth?: number; // Border walls down to y = -skirtDepth (default: none)
+  skirtColor?: string;
+}
+
+export const DEFAULT_COLOR_BANDS: ColorBand[] = [
+  { upTo: 0.3, color: "#2a5fa8" }, // Water
+  { upTo: 0.38, color: "#d8c98a" }, // Sand
+  { upTo: 0.65, color: "#4f8a3c" }, // Grass
+  { upTo: 0.85, color: "#7a6a5a" }, // Rock
+  { upTo: 1, color: "#f0f0f0" }, // Snow
+];
+
+const DEFAULT_SKIRT_COLOR = "#5a4632";
+
+// Generate a terrain mesh centered on the origin, heights from 0 to maxHeight
+export function createTerrainMesh(options: TerrainOptions = {}): Mesh3D {
+  const gridSize = options.gridSize ?? 32;
+  const cellSize = options.cellSize ?? 1;
+  const maxHeight = options.maxHeight ?? 4;
+  const colorBands = options.colorBands ?? DEFAULT_COLOR_BANDS;
+  if (colorBands.length === 0) {
+    throw new Error("Terrain needs at least one color band");
+  }
+
+  const grid = createGridMesh(gridSize, cellSize);
+  const pointsPerSide = gridSize + 1;
+  const sampleHeight = options.heightmap
+    ? createHeightmapSampler(options.heightmap, pointsPerSide)
+    : createNoiseSampler(options.noise ?? {}, cellSize);
+
+  // Grid vertices are laid out row by row: index = z * pointsPerSide + x
+  let heights = grid
+    .getVertices()
+    .map((_, index) =>
+      sampleHeight(index % pointsPerSide, Math.floor(index / pointsPerSide))
+    );
+  if (options.normalize ?? !options.heightmap) {
+    heights = normalizeHeights(heights);
+  }
+  const vertices = grid
+    .getVertices()
+    .map((v, index) => new Point3D(v.x, heights[index] * maxHeight, v.z));
+
+  const polygons = grid.getPolygons().map((polygon) => {
+    const indices = polygon.vertexIndices;
+    const average =
+      indices.reduce((sum, i) => sum + heights[i], 0) / indices.length;
+    return new Polygon3D(getBandColor(colorBands, average), indices);
+  });
+
+  if (options.skirtDepth !== undefined) {
+    addSkirt(
+      vertices,
+      polygons,
+      pointsPerSide,
+      -options.skirtDepth,
+      options.skirtColor ?? DEFAULT_SKIRT_COLOR
+    );
+  }
+
+  return new Mesh3D(vertices, polygons);
+}
+
+// Heightmap from RGBA pixels (e.g. canvas ImageData), using luminance
+export function createHeightmapFromImageData(image: {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}): Heightmap {
+  const values = new Float32Array(image.width * image.height);
+  for (let i = 0; i < values.length; i++) {
+    const r = image.data[i * 4];
+    const g = image.data[i * 4 + 1];
+    const b = image.data[i * 4 + 2];
+    values[i] = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+  }
+  return { width: image.width, height: image.height, values };
+}
+
+// Heightmap stretched over the grid, bilinearly interpolated
+function createHeightmapSampler(
+  heightmap: Heightmap,
+  pointsPerSide: number
+): (x: number, z: number) => number {
+  const { width, height, values } = heightmap;
+  if (width < 1 || height < 1 || values.length < width * height) {
+    throw new Error(
+      `Heightmap has ${values.length} values, expected ${width}x${height}`
+    );
+  }
+
+  const sample = (column: number, row: number) => values[row * width + column];
+  const scaleX = pointsPerSide > 1 ? (width - 1) / (pointsPerSide - 1) : 0;
+  const scaleZ = pointsPerSide > 1 ? (height - 1) / (pointsPerSide - 1) : 0;
+
+  return (x, z) => {
+    const u = x * scaleX;
+    const v = z * scaleZ;
+    const column = Math.min(Math.floor(u), width - 2);
+    const row = Math.min(Math.floor(v), height - 2);
+    if (column < 0 || row < 0) {
+      // Single row or column: no interpolation along that axis
+      return sample(Math.max(column, 0), Math.max(row, 0));
+    }
+    const fu = u - column;
+    const fv = v - row;
+    const top = sample(column, row) * (1 - fu) + sample(column + 1, row) * fu;
+    const bottom =
+      sample(column, row + 1) * (1 - fu) + sample(column + 1, row + 1) * fu;
+    return top * (1 - fv) + bottom * fv;
+  };
+}
+
+// Fractal noise over world coordinates, mapped from [-1, 1] to [0, 1]
+function createNoiseSampler(
+  options: TerrainNoiseOptions,
+  cellSize: number
+): (x: number, z: number) => number {
+  const noise = createPerlinNoise2D(options.seed ?? 0);
+  const scale = options.scale ?? 8;
+  if (scale <= 0) {
+    throw new Error(`Noise scale must be positive, got ${scale}`);
+  }
+
+  return (x, z) => {
+    const value = fractalNoise2D(
+      noise,
+      (x * cellSize) / scale,
+      (z * cellSize) / scale,
+      options
+    );
+    return Math.min(1, Math.max(0, (value + 1) / 2));
+  };
+}
+
+function normalizeHeights(heights: number[]): number[] {
+  // No spread arguments: large grids exceed the call stack
+  let min = Infinity;
+  let max = -Infinity;
+  for (const h of heights) {
+    min = Math.min(min, h);
+    max = Math.max(max, h);
+  }
+  const range = max - min;
+  return range > 0 ? heights.map((h) => (h - min) / range) : heights;
+}
+
+function getBandColor(bands: ColorBand[], height: number): string {
+  const band = bands.find((b) => height <= b.upTo);
+  return (band ?? bands[bands.length - 1]).color;
+}
+
+// Vertical walls from the grid border down to baseY
+// The border is walked so that every wall faces outward
+function addSkirt(
+  vertices: Point3D[],
+  polygons: Polygon3D[],
+  pointsPerSide: number,
+  baseY: number,
+  color: string
+): void {
+  const last = pointsPerSide - 1;
+  const index = (x: number, z: number) => z * pointsPerSide + x;
+
+  // -Z side going +X, +X side going +Z, +Z side going -X, -X side going -Z
+  const border: number[] = [];
+  for (let i = 0; i < last; i++) {
+    border.push(index(i, 0));
+  }
+  for (let i = 0; i < last; i++) {
+    border.push(index(last, i));
+  }
+  for (let i = last; i > 0; i--) {
+    border.push(index(i, last));
+  }
+  for (let i = last; i > 0; i--) {
+    border.push(index(0, i));
+  }
+
+  const bottoms = border.map((top) => {
+    const v = vertices[top];
+    vertices.push(new Point3D(v.x, baseY, v.z));
+    return vertices.length - 1;
+  });
+
+  border.forEach((top, i) => {
+    const next = (i + 1) % border.length;
+    polygons.push(
+      new Polygon3D(color, [top, border[next], bottoms[next], bottoms[i]])
+    );
+  });
+}